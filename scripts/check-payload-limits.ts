@@ -0,0 +1,94 @@
+#!/usr/bin/env node
+/**
+ * Payload Limits Check
+ *
+ * Regression check for the XML pre-scan: malformed input (unterminated tags and quotes)
+ * must be scanned in linear time, and the depth and element limits must still apply
+ */
+
+import { assertXmlWithinLimits, type PayloadLimits } from "../src/utils/payload-limits.js";
+import { ErrorCode, PoBParsingError } from "../src/utils/error-handler.js";
+
+const LIMITS: PayloadLimits = {
+  maxDecompressedSize: 1024 * 1024,
+  maxXmlDepth: 32,
+  maxXmlElements: 50000,
+};
+
+/**
+ * Time allowed for scanning each malformed input (a quadratic scan takes several seconds)
+ */
+const MAX_SCAN_MS = 500;
+
+/**
+ * Malformed inputs that made the previous regex scan backtrack
+ */
+const SLOW_INPUTS: Record<string, string> = {
+  "unterminated tags": "<a".repeat(40000),
+  "unterminated closing tags": "</a".repeat(40000),
+  "unterminated quotes": '<a b="'.repeat(40000),
+  "unterminated comment": "<a><!--" + "<a".repeat(40000),
+};
+
+let failures = 0;
+
+/**
+ * Records a failed check
+ */
+function fail(name: string, reason: string): void {
+  failures++;
+  console.error(`✗ ${name}: ${reason}`);
+}
+
+/**
+ * Runs the limit check and returns the error code it threw (null when the XML passed)
+ */
+function check(xml: string): ErrorCode | null {
+  try {
+    assertXmlWithinLimits(xml, LIMITS);
+    return null;
+  } catch (error) {
+    if (error instanceof PoBParsingError) {
+      return error.code;
+    }
+    throw error;
+  }
+}
+
+for (const [name, xml] of Object.entries(SLOW_INPUTS)) {
+  const start = performance.now();
+  check(xml);
+  const elapsed = performance.now() - start;
+  if (elapsed > MAX_SCAN_MS) {
+    fail(name, `took ${elapsed.toFixed(0)}ms (limit ${MAX_SCAN_MS}ms)`);
+  } else {
+    console.log(`✓ ${name} (${elapsed.toFixed(0)}ms)`);
+  }
+}
+
+const expectations: Array<[string, string, ErrorCode | null]> = [
+  [
+    "build XML",
+    '<PathOfBuilding><Build level="90"/><Notes>a > b</Notes><Config><Input name="x" string="<>"/></Config></PathOfBuilding>',
+    null,
+  ],
+  ["deep nesting", "<a>".repeat(LIMITS.maxXmlDepth + 1), ErrorCode.PAYLOAD_TOO_LARGE],
+  ["too many elements", "<a/>".repeat(LIMITS.maxXmlElements + 1), ErrorCode.PAYLOAD_TOO_LARGE],
+  ["tags inside comments", `<a><!--${"<b>".repeat(LIMITS.maxXmlDepth + 1)}--></a>`, null],
+  ["entity declaration", '<!DOCTYPE a [<!ENTITY b "c">]><a/>', ErrorCode.INVALID_XML],
+];
+
+for (const [name, xml, expected] of expectations) {
+  const code = check(xml);
+  if (code !== expected) {
+    fail(name, `expected ${expected ?? "no error"}, got ${code ?? "no error"}`);
+  } else {
+    console.log(`✓ ${name}`);
+  }
+}
+
+if (failures > 0) {
+  console.error(`\n${failures} check(s) failed`);
+  process.exit(1);
+}
+console.log("\nAll payload limit checks passed");
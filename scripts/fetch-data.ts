@@ -9,10 +9,18 @@
 import { writeFile, mkdir } from "node:fs/promises";
 import { join, dirname } from "node:path";
 import { fileURLToPath } from "node:url";
+import axios from "axios";
 import { poeAPIClient } from "../src/api/poe-api-client.js";
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 const DATA_DIR = join(__dirname, "..", "data");
+const TREE_DATA_DIR = join(DATA_DIR, "tree");
+
+/**
+ * Official passive tree export (nodes, groups, orbits, connections, stats)
+ */
+const TREE_EXPORT_URL =
+  "https://raw.githubusercontent.com/grindinggear/skilltree-export/master/data.json";
 
 /**
  * Stub data for when PoE API is unavailable
@@ -46,7 +54,7 @@ const STUB_DATA = {
  */
 async function ensureDataDir() {
   try {
-    await mkdir(DATA_DIR, { recursive: true });
+    await mkdir(TREE_DATA_DIR, { recursive: true });
   } catch (error) {
     console.error("Failed to create data directory:", error);
     throw error;
@@ -85,6 +93,23 @@ async function fetchWithFallback(type, fetchFn, stubData) {
   }
 }
 
+/**
+ * Builds a minimal tree export from stub passives (used when the export is unavailable)
+ */
+function buildStubTreeExport(passives) {
+  const nodes = {};
+  for (const passive of passives) {
+    nodes[passive.id] = {
+      skill: Number(passive.id),
+      name: passive.name,
+      isKeystone: passive.isKeystone,
+      isNotable: passive.isNotable,
+      stats: passive.effects || [],
+    };
+  }
+  return { tree: "Default", nodes, groups: {} };
+}
+
 /**
  * Main fetch function
  */
@@ -118,6 +143,18 @@ async function fetchAllData() {
     const keystones = passiveTree.skills.filter((skill) => skill.isKeystone);
     await saveData("keystones.json", keystones);
 
+    // Fetch full passive tree export (used for node lookups)
+    let treeExport;
+    try {
+      console.log("Fetching passive tree export...");
+      treeExport = (await axios.get(TREE_EXPORT_URL)).data;
+      console.log("✓ Successfully fetched passive tree export");
+    } catch (error) {
+      console.log(`⚠ Passive tree export unavailable, using stub data (${error.message})`);
+      treeExport = buildStubTreeExport(passiveTree.skills);
+    }
+    await saveData(join("tree", "latest.json"), treeExport);
+
     console.log("\n" + "=".repeat(50));
     console.log("Data fetch complete!");
     console.log(`Saved ${items.length} items`);
@@ -1,11 +1,27 @@
 /**
  * Defensive Analyzer - Evaluates build defensive capability
  * Classifies builds as glass_cannon, moderate, tanky, or uber_viable
- * Based on life, energy shield, resists, armor, and evasion
+ * Based on life, energy shield, resists, armor, evasion, and pantheon powers
  */
 
 import type { ParsedBuild } from "../models/build.js";
 import type { DefensiveRating } from "../models/analysis.js";
+import {
+  findPantheonGod,
+  type PantheonGod,
+  type PantheonMitigation,
+} from "../data/character-choices.js";
+import { sumAffixStat } from "../utils/affix-stats.js";
+
+/**
+ * Pantheon powers and what they cover
+ */
+export interface PantheonDefense {
+  major: string | null; // e.g. "Soul of the Brine King"
+  minor: string | null; // e.g. "Soul of Shakari"
+  mitigates: PantheonMitigation[];
+  gaps: string[]; // Missing or mismatched pantheon choices
+}
 
 export interface DefensiveAnalysis {
   rating: DefensiveRating;
@@ -17,6 +33,7 @@ export interface DefensiveAnalysis {
   chaosResist: number;
   armor: number;
   evasion: number;
+  pantheon: PantheonDefense | null; // null for PoE 2 builds
   details: string[];
 }
 
@@ -70,6 +87,7 @@ function extractDefensiveStats(build: ParsedBuild): {
         chaosResist = stat.value;
         break;
       case "armor":
+      case "armour":
       case "base armour":
         armor = stat.value;
         break;
@@ -81,23 +99,12 @@ function extractDefensiveStats(build: ParsedBuild): {
   }
 
   // Estimate from gear if stats missing
-  if (life === 0 || energyShield === 0) {
-    for (const gear of build.gear) {
-      if (gear.affixes) {
-        for (const affix of gear.affixes) {
-          const text = affix.text.toLowerCase();
-          if (text.includes("life") && life === 0) {
-            // Extract life value from affix text
-            const match = text.match(/(\d+)\s*to\s*maximum life/i);
-            if (match) life += parseInt(match[1], 10);
-          }
-          if (text.includes("energy shield") && energyShield === 0) {
-            const match = text.match(/(\d+)\s*to\s*maximum energy shield/i);
-            if (match) energyShield += parseInt(match[1], 10);
-          }
-        }
-      }
-    }
+  const items = [...build.gear, ...(build.jewels || [])];
+  if (life === 0) {
+    life = sumAffixStat(items, "maximum_life");
+  }
+  if (energyShield === 0) {
+    energyShield = sumAffixStat(items, "maximum_energy_shield");
   }
 
   return {
@@ -242,6 +249,42 @@ function generateDetails(
   return details;
 }
 
+/**
+ * Evaluate the selected pantheon powers (PoE 1 only)
+ */
+function analyzePantheon(
+  build: ParsedBuild,
+  stats: ReturnType<typeof extractDefensiveStats>,
+  hasChaosInoculation: boolean
+): PantheonDefense | null {
+  if (build.versionInfo?.game === "poe2") {
+    return null;
+  }
+
+  const major = findPantheonGod(build.character?.pantheonMajorGod);
+  const minor = findPantheonGod(build.character?.pantheonMinorGod);
+  const gods = [major, minor].filter((god): god is PantheonGod => god !== null);
+  const mitigates = [...new Set(gods.flatMap((god) => god.mitigates))];
+  const gaps: string[] = [];
+
+  if (!major) {
+    gaps.push("No major pantheon power selected");
+  }
+  if (!minor) {
+    gaps.push("No minor pantheon power selected");
+  }
+  if (stats.chaosResist < 0 && !hasChaosInoculation && !mitigates.includes("poison")) {
+    gaps.push("Negative chaos resistance without Soul of Shakari to shorten poisons");
+  }
+
+  return {
+    major: major?.name ?? null,
+    minor: minor?.name ?? null,
+    mitigates,
+    gaps,
+  };
+}
+
 /**
  * Analyze build defensive capability
  */
@@ -261,6 +304,14 @@ export function analyzeDefense(build: ParsedBuild): DefensiveAnalysis {
   // Generate analysis details
   const details = generateDetails(stats, rating, hasChaosInoculation);
 
+  // Pantheon powers add situational mitigation
+  const pantheon = analyzePantheon(build, stats, hasChaosInoculation);
+  if (pantheon && (pantheon.major || pantheon.minor)) {
+    details.push(
+      `Pantheon: ${[pantheon.major, pantheon.minor].filter(Boolean).join(" + ")} (${pantheon.mitigates.join(", ").replace(/_/g, " ")})`
+    );
+  }
+
   return {
     rating,
     life: stats.life,
@@ -271,6 +322,7 @@ export function analyzeDefense(build: ParsedBuild): DefensiveAnalysis {
     chaosResist: stats.chaosResist,
     armor: stats.armor,
     evasion: stats.evasion,
+    pantheon,
     details,
   };
 }
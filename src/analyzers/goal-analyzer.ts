@@ -0,0 +1,179 @@
+/**
+ * Goal Analyzer - Compares goals stated in the build notes with the build
+ * Detects targets such as "cap resists", "5k life" or "10M DPS" and checks them
+ * against the defensive and offensive analysis
+ */
+
+import type { ParsedBuild } from "../models/build.js";
+import type { AuthorGoal, GoalStatus } from "../models/analysis.js";
+import type { DefensiveAnalysis } from "./defensive-analyzer.js";
+import type { OffensiveAnalysis } from "./offensive-analyzer.js";
+
+/**
+ * Values the goals are checked against
+ */
+interface GoalContext {
+  defense: DefensiveAnalysis;
+  offense: OffensiveAnalysis;
+  movementSpeed: number | null;
+  spellSuppression: number | null;
+}
+
+/**
+ * Goal matcher: returns a result when the line states this kind of goal
+ */
+type GoalMatcher = (
+  line: string,
+  context: GoalContext
+) => { status: GoalStatus; detail: string } | null;
+
+/**
+ * Goal matchers, keyed by goal kind (each kind is reported once)
+ */
+const GOAL_MATCHERS: Record<string, GoalMatcher> = {
+  elementalResists: (line, { defense }) => {
+    const mentionsCap = /\bcap(ped|ping)?\b.*\bres|\bres(ist(ance)?s?)?\b.*\bcap/i.test(line);
+    if (!mentionsCap || /chaos/i.test(line)) {
+      return null;
+    }
+    const resists = [defense.fireResist, defense.coldResist, defense.lightningResist];
+    return {
+      status: Math.min(...resists) >= 75 ? "met" : "not_met",
+      detail: `Elemental resistances: ${resists.map((value) => `${value}%`).join(" / ")} (target 75%)`,
+    };
+  },
+
+  chaosResist: (line, { defense }) => {
+    const match = line.match(/(\d+)\s*%?\s*(?:\+\s*)?chaos res/i);
+    const capped = /\bcap(ped)?\b.*chaos res|chaos res\w*\b.*\bcap/i.test(line);
+    if (!match && !capped) {
+      return null;
+    }
+    const target = match ? parseInt(match[1], 10) : 75;
+    return {
+      status: defense.chaosResist >= target ? "met" : "not_met",
+      detail: `Chaos resistance: ${defense.chaosResist}% (target ${target}%)`,
+    };
+  },
+
+  life: (line, { defense }) => {
+    const target = parseTarget(line, /(\d+(?:\.\d+)?)\s*(k)?\s*\+?\s*(?:life|hp)\b/i);
+    if (target === null) {
+      return null;
+    }
+    return compareTarget("Life", defense.life, target);
+  },
+
+  energyShield: (line, { defense }) => {
+    const target = parseTarget(line, /(\d+(?:\.\d+)?)\s*(k)?\s*\+?\s*(?:es|energy shield)\b/i);
+    if (target === null) {
+      return null;
+    }
+    return compareTarget("Energy shield", defense.energyShield, target);
+  },
+
+  dps: (line, { offense }) => {
+    const target = parseTarget(line, /(\d+(?:\.\d+)?)\s*([km])?\s*\+?\s*dps\b/i);
+    if (target === null) {
+      return null;
+    }
+    return compareTarget("DPS", offense.estimatedDPS, target);
+  },
+
+  movementSpeed: (line, { movementSpeed }) => {
+    const match = line.match(/(\d+)\s*%\s*(?:\+\s*)?(?:movement|move|ms)\b/i);
+    if (!match) {
+      return null;
+    }
+    return compareTarget("Movement speed", movementSpeed, parseInt(match[1], 10), "%");
+  },
+
+  spellSuppression: (line, { spellSuppression }) => {
+    if (!/\bsuppress/i.test(line) || !/\bcap|100\s*%/i.test(line)) {
+      return null;
+    }
+    return compareTarget("Spell suppression", spellSuppression, 100, "%");
+  },
+};
+
+/**
+ * Parses a numeric target with an optional k/m suffix ("5k life", "1.5m dps")
+ */
+function parseTarget(line: string, pattern: RegExp): number | null {
+  const match = line.match(pattern);
+  if (!match) {
+    return null;
+  }
+  const multiplier = match[2]?.toLowerCase() === "m" ? 1000000 : match[2] ? 1000 : 1;
+  return parseFloat(match[1]) * multiplier;
+}
+
+/**
+ * Compares a detected value with a target (unknown when the value is missing)
+ */
+function compareTarget(
+  label: string,
+  value: number | null,
+  target: number,
+  unit: string = ""
+): { status: GoalStatus; detail: string } {
+  if (value === null || value <= 0) {
+    return { status: "unknown", detail: `${label}: not available (target ${target}${unit})` };
+  }
+  return {
+    status: value >= target ? "met" : "not_met",
+    detail: `${label}: ${value}${unit} (target ${target}${unit})`,
+  };
+}
+
+/**
+ * Finds a stat value by name
+ */
+function findStat(build: ParsedBuild, name: string): number | null {
+  const stat = build.stats.find((entry) => entry.name.toLowerCase() === name);
+  return stat ? stat.value : null;
+}
+
+/**
+ * Compare the goals stated in the build notes with the analysed build
+ */
+export function analyzeAuthorGoals(
+  build: ParsedBuild,
+  defense: DefensiveAnalysis,
+  offense: OffensiveAnalysis
+): AuthorGoal[] {
+  if (!build.notes) {
+    return [];
+  }
+
+  const context: GoalContext = {
+    defense,
+    offense,
+    movementSpeed: findStat(build, "movement speed"),
+    spellSuppression: findStat(build, "spell suppression chance"),
+  };
+
+  // Priority list items first, then the remaining lines
+  const priorityItems = build.notes.priorities.flatMap((list) => list.items);
+  const lines = [...priorityItems, ...build.notes.text.split("\n")]
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+
+  const goals: AuthorGoal[] = [];
+  const found = new Set<string>();
+
+  for (const line of lines) {
+    for (const [kind, matcher] of Object.entries(GOAL_MATCHERS)) {
+      if (found.has(kind)) {
+        continue;
+      }
+      const result = matcher(line, context);
+      if (result) {
+        found.add(kind);
+        goals.push({ goal: line, ...result });
+      }
+    }
+  }
+
+  return goals;
+}
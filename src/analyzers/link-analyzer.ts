@@ -0,0 +1,52 @@
+/**
+ * Link Analyzer - Reports how skill groups fit in the sockets of their items
+ * Lists real link counts, socket colour mismatches and gems without a linked socket
+ */
+
+import type { ParsedBuild } from "../models/build.js";
+import type { SkillLinkSummary } from "../models/analysis.js";
+
+export interface LinkAnalysis {
+  groups: SkillLinkSummary[];
+  issues: string[];
+}
+
+/**
+ * Analyze socket links of the enabled skill groups
+ * @param build - Parsed build (skills with socket links attached)
+ * @returns Per-group socket fit and issues for the weakness list
+ */
+export function analyzeSocketLinks(build: ParsedBuild): LinkAnalysis {
+  const groups: SkillLinkSummary[] = [];
+  const issues: string[] = [];
+
+  for (const skill of build.skills) {
+    if (!skill.enabled || !skill.itemSlot || !skill.socketLinks) {
+      continue;
+    }
+
+    const links = skill.socketLinks;
+    groups.push({
+      skillName: skill.skillName,
+      itemSlot: skill.itemSlot,
+      itemName: links.itemName,
+      sockets: links.sockets,
+      gemCount: skill.gems.length,
+      linkedSockets: links.linkedSockets,
+      colourMismatches: links.colourMismatches,
+      unfittedGems: links.unfittedGems,
+    });
+
+    if (links.unfittedGems.length > 0) {
+      issues.push(
+        `${skill.skillName} has ${skill.gems.length} gems but ${links.itemName} fits ${skill.gems.length - links.unfittedGems.length} (not linked: ${links.unfittedGems.join(", ")})`
+      );
+    }
+
+    for (const mismatch of links.colourMismatches) {
+      issues.push(`${skill.skillName} socket colours in ${links.itemName}: ${mismatch}`);
+    }
+  }
+
+  return { groups, issues };
+}
@@ -6,12 +6,14 @@
 
 import type { ParsedBuild } from "../models/build.js";
 import type { OffensiveRating } from "../models/analysis.js";
+import { getAffixStats } from "../utils/affix-stats.js";
 
 export interface OffensiveAnalysis {
   rating: OffensiveRating;
   estimatedDPS: number;
   damageType: string;
   damageSources: string[];
+  dpsAssumptions: string[];
   details: string[];
 }
 
@@ -27,6 +29,32 @@ const DAMAGE_TYPES = {
   ELEMENTAL: ["elemental", "elemental damage"],
 } as const;
 
+/**
+ * Affix stat IDs (see mod-translations) counted by the DPS estimate
+ */
+const ADDED_DAMAGE_STATS = new Set(
+  ["physical", "fire", "cold", "lightning", "chaos"].flatMap((type) => [
+    `added_${type}_damage`,
+    `added_${type}_damage_to_attacks`,
+    `added_${type}_damage_to_spells`,
+  ])
+);
+
+const INCREASED_DAMAGE_STATS = new Set([
+  "damage_increased",
+  "attack_damage_increased",
+  "spell_damage_increased",
+  "elemental_damage_increased",
+  "elemental_damage_with_attacks_increased",
+  "physical_damage_increased",
+  "fire_damage_increased",
+  "cold_damage_increased",
+  "lightning_damage_increased",
+  "chaos_damage_increased",
+]);
+
+const MORE_DAMAGE_STATS = new Set(["damage_more", "attack_damage_more", "spell_damage_more"]);
+
 /**
  * Identify primary damage type from skills and gear
  */
@@ -101,36 +129,14 @@ function estimateDPS(build: ParsedBuild): number {
   let increasedDamage = 0;
   let moreMultipliers = 1;
 
-  // Extract damage modifiers from gear
-  for (const gear of build.gear) {
-    if (gear.affixes) {
-      for (const affix of gear.affixes) {
-        const text = affix.text.toLowerCase();
-
-        // Added damage
-        if (text.includes("added") && (text.includes("damage") || text.includes("attacks"))) {
-          const match = text.match(/(\d+)\s*to\s*(\d+)\s*\w*\s*damage/i);
-          if (match) {
-            addedDamage += (parseInt(match[1], 10) + parseInt(match[2], 10)) / 2;
-          }
-        }
-
-        // Increased damage
-        if (text.includes("increased") && text.includes("damage")) {
-          const match = text.match(/(\d+)%\s*increased/i);
-          if (match) {
-            increasedDamage += parseInt(match[1], 10);
-          }
-        }
-
-        // More multipliers
-        if (text.includes("% more")) {
-          const match = text.match(/(\d+)%\s*more/i);
-          if (match) {
-            moreMultipliers *= 1 + parseInt(match[1], 10) / 100;
-          }
-        }
-      }
+  // Extract damage modifiers from gear (added damage values are min-max averages)
+  for (const stat of getAffixStats(build.gear)) {
+    if (ADDED_DAMAGE_STATS.has(stat.id)) {
+      addedDamage += stat.value;
+    } else if (INCREASED_DAMAGE_STATS.has(stat.id)) {
+      increasedDamage += stat.value;
+    } else if (MORE_DAMAGE_STATS.has(stat.id)) {
+      moreMultipliers *= 1 + stat.value / 100;
     }
   }
 
@@ -199,6 +205,48 @@ function identifyDamageSources(build: ParsedBuild): string[] {
   return sources;
 }
 
+/**
+ * List the config assumptions PoB's DPS was calculated with
+ */
+function identifyDpsAssumptions(build: ParsedBuild): string[] {
+  const config = build.config;
+  if (!config) {
+    return [];
+  }
+
+  const assumptions: string[] = [];
+
+  if (config.enemy.bossType !== "None") {
+    const bossType = config.enemy.bossType === "Boss" ? "standard" : config.enemy.bossType;
+    assumptions.push(`Enemy is a ${bossType} boss`);
+  }
+  if (config.enemy.level !== null) {
+    assumptions.push(`Enemy level ${config.enemy.level}`);
+  }
+
+  for (const [type, charge] of Object.entries(config.charges)) {
+    if (charge.enabled) {
+      const count = charge.count !== null ? `${charge.count}` : "maximum";
+      assumptions.push(`${count} ${type} charges`);
+    }
+  }
+
+  if (config.usingFlasks) {
+    assumptions.push("Flasks always active");
+  }
+  if (config.buffs.length > 0) {
+    assumptions.push(`Buffs: ${config.buffs.map((name) => name.replace(/^buff/, "")).join(", ")}`);
+  }
+  if (config.enemy.conditions.length > 0) {
+    assumptions.push(`Enemy conditions: ${config.enemy.conditions.join(", ")}`);
+  }
+  if (config.customModifiers.length > 0) {
+    assumptions.push(`Custom modifiers: ${config.customModifiers.join("; ")}`);
+  }
+
+  return assumptions;
+}
+
 /**
  * Classify offensive rating based on DPS
  */
@@ -276,6 +324,9 @@ export function analyzeOffense(build: ParsedBuild): OffensiveAnalysis {
   // Identify damage sources
   const damageSources = identifyDamageSources(build);
 
+  // Config the DPS relies on
+  const dpsAssumptions = identifyDpsAssumptions(build);
+
   // Generate analysis details
   const details = generateDetails(rating, estimatedDPS, damageType, damageSources);
 
@@ -284,6 +335,7 @@ export function analyzeOffense(build: ParsedBuild): OffensiveAnalysis {
     estimatedDPS,
     damageType,
     damageSources,
+    dpsAssumptions,
     details,
   };
 }
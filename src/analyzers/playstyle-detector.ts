@@ -6,6 +6,7 @@
 
 import type { ParsedBuild } from "../models/build.js";
 import type { PlaystyleType } from "../models/analysis.js";
+import { sumAffixStat } from "../utils/affix-stats.js";
 
 export interface PlaystyleDetection {
   type: PlaystyleType;
@@ -193,22 +194,7 @@ function getMovementSpeed(build: ParsedBuild): number {
   }
 
   // Estimate from gear
-  let totalMovementSpeed = 0;
-  for (const gear of build.gear) {
-    if (gear.affixes) {
-      for (const affix of gear.affixes) {
-        const text = affix.text.toLowerCase();
-        if (text.includes("movement speed") || text.includes("move speed")) {
-          const match = text.match(/(\d+)%?\s*increased\s*movement\s*speed/i);
-          if (match) {
-            totalMovementSpeed += parseInt(match[1], 10);
-          }
-        }
-      }
-    }
-  }
-
-  return totalMovementSpeed;
+  return sumAffixStat(build.gear, "movement_speed_increased");
 }
 
 /**
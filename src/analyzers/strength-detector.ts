@@ -4,6 +4,7 @@
  */
 
 import type { ParsedBuild } from "../models/build.js";
+import { getAffixStats, maxAffixStat } from "../utils/affix-stats.js";
 
 export interface StrengthDetection {
   strengths: string[];
@@ -36,21 +37,13 @@ const KEYSTONE_STRENGTHS: Record<string, string> = {
 };
 
 /**
- * Strength patterns to detect in gear affixes
+ * Affix stat thresholds for gear strengths (canonical stat IDs, see mod-translator)
  */
-const GEAR_STRENGTH_PATTERNS = {
-  highLife: /\+([7-9][0-9]|1[0-9][0-9]) to maximum life/i,
-  highES: /\+([5-9][0-9]|1[0-9][0-9]) to maximum energy shield/i,
-  highResist: /\+([3-9][0-9]|100)% to (fire|cold|lightning) resistance/i,
-  maxResist: /\+(maximum |max )?(fire|cold|lightning|chaos) resistance/i,
-  highArmor: /\+([5-9][0-9][0-9]|1[0-9][0-9][0-9]) to armour/i,
-  highEvasion: /\+([5-9][0-9][0-9]|1[0-9][0-9][0-9]) to evasion rating/i,
-  highMana: /\+([5-9][0-9]|1[0-9][0-9]) to maximum mana/i,
-  spellSuppression: /\+([1-9][0-9])% chance to suppress spell damage/i,
-  blockChance: /\+(\d+%?) (block chance|chance to block)/i,
-  critMulti: /\+(\d+) to critical strike multiplier/i,
-  incDamage: /\+(\d+)% increased (damage|attack damage|spell damage)/i,
-  moreDamage: /\+(\d+)% more (damage|attack damage|spell damage)/i,
+const GEAR_STRENGTH_THRESHOLDS = {
+  highArmor: 500, // armour
+  highEvasion: 500, // evasion_rating
+  highIncDamage: 50, // *_damage_increased
+  highCritMulti: 30, // critical_strike_multiplier
 };
 
 /**
@@ -94,6 +87,19 @@ function detectKeystones(build: ParsedBuild): string[] {
     }
   }
 
+  // Anointed notables and mastery choices are build-defining too
+  for (const anoint of build.passives.anoints || []) {
+    keystones.push(
+      `Anointed notable: ${anoint.name}${anoint.effect ? ` (${anoint.effect})` : ""}`
+    );
+  }
+
+  for (const mastery of build.passives.masteries || []) {
+    if (mastery.effect) {
+      keystones.push(`${mastery.name}: ${mastery.effect}`);
+    }
+  }
+
   return keystones;
 }
 
@@ -160,41 +166,15 @@ function detectDefensiveStrengths(build: ParsedBuild): string[] {
   }
 
   // Check gear for defensive affixes
-  let maxBlock = 0;
-  let spellSuppression = 0;
-
-  for (const gear of build.gear) {
-    if (!gear.affixes) continue;
+  const maxBlock = maxAffixStat(build.gear, "block_chance");
+  const spellSuppression = maxAffixStat(build.gear, "spell_suppression_chance");
 
-    for (const affix of gear.affixes) {
-      const text = affix.text;
-
-      // Block chance
-      const blockMatch = text.match(GEAR_STRENGTH_PATTERNS.blockChance);
-      if (blockMatch) {
-        maxBlock = Math.max(maxBlock, parseInt(blockMatch[1], 10));
-      }
-
-      // Spell suppression
-      const suppressMatch = text.match(GEAR_STRENGTH_PATTERNS.spellSuppression);
-      if (suppressMatch) {
-        spellSuppression = Math.max(spellSuppression, parseInt(suppressMatch[1], 10));
-      }
-
-      // High armor
-      if (GEAR_STRENGTH_PATTERNS.highArmor.test(text)) {
-        if (!strengths.includes("High armor from gear")) {
-          strengths.push("High armor from gear");
-        }
-      }
+  if (maxAffixStat(build.gear, "armour") >= GEAR_STRENGTH_THRESHOLDS.highArmor) {
+    strengths.push("High armor from gear");
+  }
 
-      // High evasion
-      if (GEAR_STRENGTH_PATTERNS.highEvasion.test(text)) {
-        if (!strengths.includes("High evasion from gear")) {
-          strengths.push("High evasion from gear");
-        }
-      }
-    }
+  if (maxAffixStat(build.gear, "evasion_rating") >= GEAR_STRENGTH_THRESHOLDS.highEvasion) {
+    strengths.push("High evasion from gear");
   }
 
   if (maxBlock >= 75) {
@@ -245,37 +225,28 @@ function detectOffensiveStrengths(build: ParsedBuild): string[] {
   let moreDamageCount = 0;
   let highIncDamage = 0;
 
-  for (const gear of build.gear) {
-    if (!gear.affixes) continue;
-
-    for (const affix of gear.affixes) {
-      const text = affix.text;
-
-      // More damage multipliers
-      if (GEAR_STRENGTH_PATTERNS.moreDamage.test(text)) {
-        moreDamageCount++;
-      }
-
-      // High increased damage
-      const incMatch = text.match(GEAR_STRENGTH_PATTERNS.incDamage);
-      if (incMatch) {
-        const value = parseInt(incMatch[1], 10);
-        if (value >= 50) {
-          highIncDamage++;
-        }
-      }
+  for (const stat of getAffixStats(build.gear)) {
+    // More damage multipliers
+    if (stat.id.endsWith("_more") && stat.value > 0) {
+      moreDamageCount++;
+    }
 
-      // Critical multiplier
-      const critMatch = text.match(GEAR_STRENGTH_PATTERNS.critMulti);
-      if (critMatch) {
-        const value = parseInt(critMatch[1], 10);
-        if (value >= 30) {
-          strengths.push("High critical strike multiplier from gear");
-        }
-      }
+    // High increased damage
+    if (
+      stat.id.endsWith("damage_increased") &&
+      stat.value >= GEAR_STRENGTH_THRESHOLDS.highIncDamage
+    ) {
+      highIncDamage++;
     }
   }
 
+  // Critical multiplier
+  if (
+    maxAffixStat(build.gear, "critical_strike_multiplier") >= GEAR_STRENGTH_THRESHOLDS.highCritMulti
+  ) {
+    strengths.push("High critical strike multiplier from gear");
+  }
+
   if (moreDamageCount >= 2) {
     strengths.push("Multiple 'more damage' modifiers");
   }
@@ -4,6 +4,7 @@
  */
 
 import type { ParsedBuild } from "../models/build.js";
+import { sumAffixStat } from "../utils/affix-stats.js";
 
 export interface WeaknessDetection {
   weaknesses: string[];
@@ -97,22 +98,10 @@ function detectDefensiveWeaknesses(build: ParsedBuild): string[] {
   }
 
   // Check for missing mitigation layers
-  let hasBlock = false;
-  let hasSpellSuppression = false;
-
-  for (const gear of build.gear) {
-    if (!gear.affixes) continue;
-
-    for (const affix of gear.affixes) {
-      const text = affix.text.toLowerCase();
-      if (text.includes("block") && text.includes("%")) {
-        hasBlock = true;
-      }
-      if (text.includes("suppress") && text.includes("spell")) {
-        hasSpellSuppression = true;
-      }
-    }
-  }
+  const hasBlock =
+    sumAffixStat(build.gear, "block_chance") > 0 ||
+    sumAffixStat(build.gear, "spell_block_chance") > 0;
+  const hasSpellSuppression = sumAffixStat(build.gear, "spell_suppression_chance") > 0;
 
   if (!hasBlock && !hasSpellSuppression && armor < 5000) {
     weaknesses.push("No block or spell suppression - relies solely on life/ES");
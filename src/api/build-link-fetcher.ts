@@ -0,0 +1,199 @@
+/**
+ * Build Link Fetcher
+ *
+ * Resolves build sharing links (pobb.in, pastebin, poe.ninja) to raw PoB build codes
+ */
+
+import { RateLimitedHttpClient } from "./http-client.js";
+import { isValidBase64 } from "../utils/base64-decoder.js";
+import { ErrorCode, PoBParsingError } from "../utils/error-handler.js";
+
+/**
+ * Link fetcher configuration
+ */
+const RATE_LIMIT_DELAY = 1000; // Be polite to paste sites: 1 request per second
+const REQUEST_TIMEOUT = 10000; // 10 seconds
+const MAX_RESPONSE_SIZE = 2 * 1024 * 1024; // Build codes are well below 2MB
+
+/**
+ * Share site that serves raw build codes
+ */
+export interface ShareLinkProvider {
+  name: string;
+  linkPattern: RegExp; // Matches a share link; group 1 captures the paste ID
+  defaultBaseUrl: string;
+  baseUrlEnv: string; // Environment variable overriding the base URL
+  rawPath: (id: string) => string; // Path of the raw code relative to the base URL
+}
+
+/**
+ * Supported share sites
+ */
+export const SHARE_LINK_PROVIDERS: ShareLinkProvider[] = [
+  {
+    name: "pobb.in",
+    linkPattern: /^(?:https?:\/\/)?(?:www\.)?pobb\.in\/(?:u\/[^/]+\/)?([A-Za-z0-9_-]+)(?:\/raw)?\/?$/i,
+    defaultBaseUrl: "https://pobb.in",
+    baseUrlEnv: "POBBIN_BASE_URL",
+    rawPath: (id) => `/${id}/raw`,
+  },
+  {
+    name: "pastebin",
+    linkPattern: /^(?:https?:\/\/)?(?:www\.)?pastebin\.com\/(?:raw\/)?([A-Za-z0-9]+)\/?$/i,
+    defaultBaseUrl: "https://pastebin.com",
+    baseUrlEnv: "PASTEBIN_BASE_URL",
+    rawPath: (id) => `/raw/${id}`,
+  },
+  {
+    name: "poe.ninja",
+    linkPattern: /^(?:https?:\/\/)?(?:www\.)?poe\.ninja\/pob\/(?:raw\/)?([A-Za-z0-9_-]+)\/?$/i,
+    defaultBaseUrl: "https://poe.ninja",
+    baseUrlEnv: "POE_NINJA_BASE_URL",
+    rawPath: (id) => `/pob/raw/${id}`,
+  },
+];
+
+/**
+ * Fetches the raw text behind a URL (swap in a stand-in for tests)
+ */
+export interface BuildCodeFetcher {
+  fetchText(url: string): Promise<string>;
+}
+
+/**
+ * Default fetcher using the shared axios setup and rate limiting
+ */
+export class HttpBuildCodeFetcher extends RateLimitedHttpClient implements BuildCodeFetcher {
+  constructor() {
+    super(RATE_LIMIT_DELAY, {
+      timeout: REQUEST_TIMEOUT,
+      maxContentLength: MAX_RESPONSE_SIZE,
+      responseType: "text",
+      // Keep the body as text (axios would otherwise try to parse JSON)
+      transformResponse: (data) => data,
+    });
+  }
+
+  /**
+   * Fetch a URL and return the response body
+   */
+  async fetchText(url: string): Promise<string> {
+    await this.enforceRateLimit();
+
+    const response = await this.client.get<string>(url);
+    return String(response.data ?? "");
+  }
+}
+
+/**
+ * Resolves share links to build codes
+ */
+export class BuildLinkResolver {
+  private fetcher: BuildCodeFetcher;
+  private baseUrls: Record<string, string>;
+
+  /**
+   * @param fetcher - Fetcher used for HTTP requests
+   * @param baseUrls - Base URL overrides keyed by provider name (defaults to env, then the public site)
+   */
+  constructor(
+    fetcher: BuildCodeFetcher = new HttpBuildCodeFetcher(),
+    baseUrls: Record<string, string> = {}
+  ) {
+    this.fetcher = fetcher;
+    this.baseUrls = baseUrls;
+  }
+
+  /**
+   * Checks whether the input is a supported share link
+   */
+  isShareLink(input: string): boolean {
+    return this.matchLink(input) !== null;
+  }
+
+  /**
+   * Fetches the build code behind a share link
+   * @param link - Share link (e.g., "https://pobb.in/abc123")
+   * @returns Raw build code
+   * @throws PoBParsingError if the link is unsupported or does not return a build code
+   */
+  async resolve(link: string): Promise<string> {
+    const match = this.matchLink(link);
+    if (!match) {
+      throw new PoBParsingError(
+        ErrorCode.LINK_RESOLUTION_ERROR,
+        "Unsupported build link",
+        `Supported sites: ${SHARE_LINK_PROVIDERS.map((provider) => provider.name).join(", ")}`
+      );
+    }
+
+    const { provider, id } = match;
+    const url = `${this.getBaseUrl(provider).replace(/\/+$/, "")}${provider.rawPath(id)}`;
+
+    let body: string;
+    try {
+      body = await this.fetcher.fetchText(url);
+    } catch (error) {
+      throw new PoBParsingError(
+        ErrorCode.LINK_RESOLUTION_ERROR,
+        `Failed to fetch build from ${provider.name}`,
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+
+    const code = body.trim();
+    if (!isValidBase64(code)) {
+      throw new PoBParsingError(
+        ErrorCode.LINK_RESOLUTION_ERROR,
+        `${provider.name} did not return a build code`,
+        `Fetched ${url} (${body.length} characters)`
+      );
+    }
+
+    return code;
+  }
+
+  /**
+   * Finds the provider and paste ID for a link
+   */
+  private matchLink(input: string): { provider: ShareLinkProvider; id: string } | null {
+    const trimmed = String(input ?? "").trim();
+
+    for (const provider of SHARE_LINK_PROVIDERS) {
+      const match = trimmed.match(provider.linkPattern);
+      if (match) {
+        return { provider, id: match[1] };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Base URL for a provider: constructor override, then environment, then the public site
+   */
+  private getBaseUrl(provider: ShareLinkProvider): string {
+    return (
+      this.baseUrls[provider.name] || process.env[provider.baseUrlEnv] || provider.defaultBaseUrl
+    );
+  }
+}
+
+/**
+ * Resolver used by the tools (replace with setBuildLinkResolver for tests)
+ */
+let buildLinkResolver = new BuildLinkResolver();
+
+/**
+ * Returns the resolver used by the tools
+ */
+export function getBuildLinkResolver(): BuildLinkResolver {
+  return buildLinkResolver;
+}
+
+/**
+ * Replaces the resolver used by the tools (e.g., with a local HTTP stand-in)
+ */
+export function setBuildLinkResolver(resolver: BuildLinkResolver): void {
+  buildLinkResolver = resolver;
+}
@@ -0,0 +1,52 @@
+/**
+ * Shared HTTP client
+ *
+ * Axios setup, User-Agent and rate limiting shared by the API clients
+ */
+
+import axios, { type AxiosInstance, type CreateAxiosDefaults } from "axios";
+
+/**
+ * User-Agent sent with every request
+ */
+export const USER_AGENT = "MCP-PoB-Server/1.0.0";
+
+/**
+ * Base class for rate-limited HTTP clients
+ */
+export abstract class RateLimitedHttpClient {
+  protected client: AxiosInstance;
+  private lastRequestTime = 0;
+
+  /**
+   * @param rateLimitDelay - Minimum delay between requests in milliseconds
+   * @param config - Axios configuration (base URL, extra headers, ...)
+   */
+  constructor(
+    private rateLimitDelay: number,
+    config: CreateAxiosDefaults = {}
+  ) {
+    this.client = axios.create({
+      ...config,
+      headers: {
+        "User-Agent": USER_AGENT,
+        ...(config.headers as Record<string, string> | undefined),
+      },
+    });
+  }
+
+  /**
+   * Rate limiting helper - waits until the delay since the last request has passed
+   */
+  protected async enforceRateLimit(): Promise<void> {
+    const now = Date.now();
+    const timeSinceLastRequest = now - this.lastRequestTime;
+
+    if (timeSinceLastRequest < this.rateLimitDelay) {
+      const delay = this.rateLimitDelay - timeSinceLastRequest;
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+
+    this.lastRequestTime = Date.now();
+  }
+}
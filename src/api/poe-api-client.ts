@@ -4,7 +4,7 @@
  * Fetches game data from official Path of Exile API
  */
 
-import axios, { type AxiosInstance } from "axios";
+import { RateLimitedHttpClient } from "./http-client.js";
 
 /**
  * PoE API client configuration
@@ -45,35 +45,16 @@ export interface PoELeague {
 /**
  * PoE API client class
  */
-export class PoEAPIClient {
-  private client: AxiosInstance;
-  private lastRequestTime = 0;
-
+export class PoEAPIClient extends RateLimitedHttpClient {
   constructor(apiKey: string = API_KEY) {
-    this.client = axios.create({
+    super(RATE_LIMIT_DELAY, {
       baseURL: POE_API_BASE,
       headers: {
-        "User-Agent": "MCP-PoB-Server/1.0.0",
         ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
       },
     });
   }
 
-  /**
-   * Rate limiting helper - ensures 1 request/second
-   */
-  private async enforceRateLimit(): Promise<void> {
-    const now = Date.now();
-    const timeSinceLastRequest = now - this.lastRequestTime;
-
-    if (timeSinceLastRequest < RATE_LIMIT_DELAY) {
-      const delay = RATE_LIMIT_DELAY - timeSinceLastRequest;
-      await new Promise((resolve) => setTimeout(resolve, delay));
-    }
-
-    this.lastRequestTime = Date.now();
-  }
-
   /**
    * Fetch all item data from PoE API
    */
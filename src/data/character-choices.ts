@@ -0,0 +1,219 @@
+/**
+ * Character Choices
+ *
+ * PoE 1 bandit rewards and pantheon powers (PoB's <Build bandit/pantheonMajorGod/pantheonMinorGod> values)
+ */
+
+import type { Bandit } from "../models/build.js";
+
+/**
+ * Bandit quest reward
+ */
+export interface BanditReward {
+  bandit: Bandit;
+  reward: string;
+}
+
+/**
+ * Bandit rewards ("None" = kill all three bandits)
+ */
+export const BANDIT_REWARDS: BanditReward[] = [
+  { bandit: "None", reward: "+2 Passive Skill Points" },
+  {
+    bandit: "Alira",
+    reward:
+      "Regenerate 5 Mana per second, +20% to Global Critical Strike Multiplier, +15% to all Elemental Resistances",
+  },
+  {
+    bandit: "Kraityn",
+    reward:
+      "6% increased Attack and Cast Speed, 10% chance to Avoid Elemental Ailments, 4% increased Movement Speed",
+  },
+  {
+    bandit: "Oak",
+    reward:
+      "Regenerate 1% of Life per second, 2% additional Physical Damage Reduction, 20% increased Physical Damage",
+  },
+];
+
+/**
+ * Upgrade unlocked by capturing a map boss soul with a Divine Vessel
+ */
+export interface PantheonUpgrade {
+  soul: string; // Captured soul item
+  effect: string;
+}
+
+/**
+ * What a pantheon power protects against
+ */
+export type PantheonMitigation =
+  | "stun"
+  | "physical"
+  | "area"
+  | "damage_over_time"
+  | "ignite"
+  | "shock"
+  | "bleed"
+  | "poison"
+  | "reflect"
+  | "flask_sustain";
+
+/**
+ * Pantheon power
+ */
+export interface PantheonGod {
+  id: string; // PoB value (e.g., "TheBrineKing")
+  name: string; // e.g. "Soul of the Brine King"
+  major: boolean;
+  effect: string; // Base power
+  mitigates: PantheonMitigation[];
+  upgrades: PantheonUpgrade[]; // Upgrades worth pointing out (not every upgrade is listed)
+}
+
+/**
+ * Pantheon powers
+ */
+export const PANTHEON_GODS: PantheonGod[] = [
+  {
+    id: "TheBrineKing",
+    name: "Soul of the Brine King",
+    major: true,
+    effect:
+      "You cannot be Stunned if you've been Stunned or Blocked a Stunning Hit in the past 2 seconds",
+    // Freeze protection is an upgrade, not part of the base power
+    mitigates: ["stun"],
+    upgrades: [],
+  },
+  {
+    id: "Lunaris",
+    name: "Soul of Lunaris",
+    major: true,
+    effect:
+      "1% additional Physical Damage Reduction and 1% increased Movement Speed for each nearby Enemy, up to 8%",
+    mitigates: ["physical"],
+    upgrades: [],
+  },
+  {
+    id: "Solaris",
+    name: "Soul of Solaris",
+    major: true,
+    effect:
+      "6% additional Physical Damage Reduction while there is only one nearby Enemy, 20% chance to take 50% less Area Damage from Hits",
+    mitigates: ["physical", "area"],
+    upgrades: [],
+  },
+  {
+    id: "Arakaali",
+    name: "Soul of Arakaali",
+    major: true,
+    effect: "10% reduced Damage taken from Damage Over Time",
+    mitigates: ["damage_over_time"],
+    upgrades: [
+      {
+        soul: "Captured Soul of Queen of the Great Tangle",
+        effect:
+          "50% increased Recovery of Life and Energy Shield if you've stopped taking Damage Over Time Recently",
+      },
+    ],
+  },
+  {
+    id: "Abberath",
+    name: "Soul of Abberath",
+    major: false,
+    effect: "60% less Duration of Ignite on You",
+    mitigates: ["ignite"],
+    upgrades: [
+      { soul: "Captured Soul of Mephod, the Earth Scorcher", effect: "Unaffected by Burning Ground" },
+    ],
+  },
+  {
+    id: "Garukhan",
+    name: "Soul of Garukhan",
+    major: false,
+    effect: "60% reduced Effect of Shock on you",
+    mitigates: ["shock"],
+    upgrades: [{ soul: "Captured Soul of Shock and Horror", effect: "Unaffected by Shocked Ground" }],
+  },
+  {
+    id: "Gruthkul",
+    name: "Soul of Gruthkul",
+    major: false,
+    effect:
+      "1% additional Physical Damage Reduction for each Hit you've taken Recently, up to a maximum of 5%",
+    mitigates: ["physical"],
+    upgrades: [],
+  },
+  {
+    id: "Ralakesh",
+    name: "Soul of Ralakesh",
+    major: false,
+    effect:
+      "25% reduced Physical Damage over Time taken while moving, Moving while Bleeding doesn't cause you to take extra Damage",
+    mitigates: ["bleed"],
+    upgrades: [],
+  },
+  {
+    id: "Ryslatha",
+    name: "Soul of Ryslatha",
+    major: false,
+    effect: "Life Flasks gain 3 Charges every 3 seconds if you haven't used a Life Flask Recently",
+    mitigates: ["flask_sustain"],
+    upgrades: [],
+  },
+  {
+    id: "Shakari",
+    name: "Soul of Shakari",
+    major: false,
+    effect: "50% less Duration of Poisons on You",
+    mitigates: ["poison"],
+    upgrades: [
+      {
+        soul: "Captured Soul of Thraxia",
+        effect: "You cannot be Poisoned while there are at least 5 Poisons on you",
+      },
+    ],
+  },
+  {
+    id: "Tukohama",
+    name: "Soul of Tukohama",
+    major: false,
+    effect:
+      "While stationary, gain 2% additional Physical Damage Reduction every second, up to a maximum of 8%",
+    mitigates: ["physical"],
+    upgrades: [],
+  },
+  {
+    id: "Yugul",
+    name: "Soul of Yugul",
+    major: false,
+    effect: "You and your Minions take 50% reduced Reflected Damage",
+    mitigates: ["reflect"],
+    upgrades: [],
+  },
+];
+
+/**
+ * Finds a pantheon power by PoB value or name (case-insensitive)
+ */
+export function findPantheonGod(value: string | null | undefined): PantheonGod | null {
+  const key = String(value ?? "").trim().toLowerCase();
+  if (!key || key === "none") {
+    return null;
+  }
+  return (
+    PANTHEON_GODS.find(
+      (god) =>
+        god.id.toLowerCase() === key ||
+        god.name.toLowerCase() === key ||
+        god.name.toLowerCase() === `soul of ${key}`
+    ) || null
+  );
+}
+
+/**
+ * Finds the reward of a bandit choice
+ */
+export function findBanditReward(bandit: Bandit | null | undefined): BanditReward | null {
+  return BANDIT_REWARDS.find((entry) => entry.bandit === bandit) || null;
+}
@@ -0,0 +1,222 @@
+/**
+ * Character Class Registry
+ *
+ * Classes and ascendancies per game, with PoB's numeric IDs (tree spec classId / ascendClassId)
+ */
+
+import type { Ascendancy, CharacterClass } from "../models/build.js";
+import type { GameType } from "../models/version.js";
+import { compareVersions, parseVersion } from "../utils/version.js";
+
+/**
+ * Ascendancy of a class
+ */
+export interface AscendancyDefinition {
+  name: NonNullable<Ascendancy>;
+  id: number | null; // ascendClassId (1-based within the class), null when PoB's ID is not known
+  aliases: string[]; // Other names PoB or the game have used
+  introduced?: string; // First tree version with the ascendancy (e.g. "3_25")
+  removed?: string; // First tree version without it; its ascendClassId moved to a replacement
+}
+
+/**
+ * Character class of a game
+ */
+export interface ClassDefinition {
+  game: GameType;
+  name: CharacterClass;
+  id: number | null; // classId, null when PoB's ID is not known
+  ascendancies: AscendancyDefinition[];
+}
+
+/**
+ * Builds ascendancy definitions; IDs follow list order when the class has known IDs
+ */
+function ascendancies(names: NonNullable<Ascendancy>[], withIds: boolean): AscendancyDefinition[] {
+  return names.map((name, index) => ({ name, id: withIds ? index + 1 : null, aliases: [] }));
+}
+
+/**
+ * Class registry (PoE 1 IDs match the tree export's class order)
+ * PoE 2 class and ascendancy IDs are not mapped: PoE 2 builds are resolved by name,
+ * and a build that only records IDs is reported in diagnostics
+ */
+export const CHARACTER_CLASSES: ClassDefinition[] = [
+  { game: "poe1", name: "Scion", id: 0, ascendancies: ascendancies(["Ascendant"], true) },
+  {
+    game: "poe1",
+    name: "Marauder",
+    id: 1,
+    ascendancies: ascendancies(["Juggernaut", "Berserker", "Chieftain"], true),
+  },
+  {
+    game: "poe1",
+    name: "Ranger",
+    id: 2,
+    // Warden replaced Raider in 3.25 and took over its slot in the tree export
+    ascendancies: [
+      { name: "Raider", id: 1, aliases: [], removed: "3_25" },
+      { name: "Warden", id: 1, aliases: [], introduced: "3_25" },
+      { name: "Deadeye", id: 2, aliases: [] },
+      { name: "Pathfinder", id: 3, aliases: [] },
+    ],
+  },
+  {
+    game: "poe1",
+    name: "Witch",
+    id: 3,
+    ascendancies: ascendancies(["Occultist", "Elementalist", "Necromancer"], true),
+  },
+  {
+    game: "poe1",
+    name: "Duelist",
+    id: 4,
+    ascendancies: ascendancies(["Slayer", "Gladiator", "Champion"], true),
+  },
+  {
+    game: "poe1",
+    name: "Templar",
+    id: 5,
+    ascendancies: ascendancies(["Inquisitor", "Hierophant", "Guardian"], true),
+  },
+  {
+    game: "poe1",
+    name: "Shadow",
+    id: 6,
+    ascendancies: ascendancies(["Assassin", "Trickster", "Saboteur"], true),
+  },
+  {
+    game: "poe2",
+    name: "Warrior",
+    id: null,
+    ascendancies: ascendancies(["Titan", "Warbringer", "Smith of Kitava"], false),
+  },
+  {
+    game: "poe2",
+    name: "Mercenary",
+    id: null,
+    ascendancies: ascendancies(["Witchhunter", "Gemling Legionnaire", "Tactician"], false),
+  },
+  {
+    game: "poe2",
+    name: "Monk",
+    id: null,
+    ascendancies: ascendancies(["Invoker", "Acolyte of Chayula"], false),
+  },
+  {
+    game: "poe2",
+    name: "Sorceress",
+    id: null,
+    ascendancies: ascendancies(["Stormweaver", "Chronomancer", "Disciple of Varashta"], false),
+  },
+  {
+    game: "poe2",
+    name: "Ranger",
+    id: null,
+    ascendancies: ascendancies(["Deadeye", "Pathfinder"], false),
+  },
+  {
+    game: "poe2",
+    name: "Huntress",
+    id: null,
+    ascendancies: ascendancies(["Amazon", "Ritualist"], false),
+  },
+  {
+    game: "poe2",
+    name: "Witch",
+    id: null,
+    ascendancies: [
+      ...ascendancies(["Infernalist", "Blood Mage"], false),
+      { name: "Lich", id: null, aliases: ["Abyssal Lich"] },
+    ],
+  },
+  {
+    game: "poe2",
+    name: "Druid",
+    id: null,
+    ascendancies: ascendancies(["Oracle", "Shaman"], false),
+  },
+];
+
+/**
+ * Default class when a build records none
+ */
+export const DEFAULT_CLASS: CharacterClass = "Witch";
+
+/**
+ * Finds a class by name (case-insensitive)
+ */
+export function findClass(name: string | null | undefined, game: GameType): ClassDefinition | null {
+  const key = String(name ?? "").trim().toLowerCase();
+  return (
+    CHARACTER_CLASSES.find((entry) => entry.game === game && entry.name.toLowerCase() === key) ||
+    null
+  );
+}
+
+/**
+ * Finds a class by PoB classId
+ */
+export function findClassById(id: number | null | undefined, game: GameType): ClassDefinition | null {
+  if (id === null || id === undefined) {
+    return null;
+  }
+  return CHARACTER_CLASSES.find((entry) => entry.game === game && entry.id === id) || null;
+}
+
+/**
+ * Finds an ascendancy by name or alias (case-insensitive), with the class it belongs to
+ */
+export function findAscendancy(
+  name: string | null | undefined,
+  game: GameType
+): { characterClass: ClassDefinition; ascendancy: AscendancyDefinition } | null {
+  const key = String(name ?? "").trim().toLowerCase();
+  if (!key) {
+    return null;
+  }
+
+  for (const characterClass of CHARACTER_CLASSES) {
+    if (characterClass.game !== game) {
+      continue;
+    }
+    const ascendancy = characterClass.ascendancies.find(
+      (entry) =>
+        entry.name.toLowerCase() === key ||
+        entry.aliases.some((alias) => alias.toLowerCase() === key)
+    );
+    if (ascendancy) {
+      return { characterClass, ascendancy };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Finds an ascendancy of a class by PoB ascendClassId (0 = not ascended)
+ * @param treeVersion - Tree version of the spec; picks the ascendancy that held the ID in that
+ *   version (the current one when the version is unknown)
+ */
+export function findAscendancyById(
+  characterClass: ClassDefinition,
+  id: number | null | undefined,
+  treeVersion?: string | null
+): AscendancyDefinition | null {
+  if (id === null || id === undefined || id === 0) {
+    return null;
+  }
+
+  const candidates = characterClass.ascendancies.filter((entry) => entry.id === id);
+  const version = parseVersion(treeVersion);
+  if (!version) {
+    return candidates.find((entry) => !entry.removed) || candidates[0] || null;
+  }
+  return (
+    candidates.find(
+      (entry) =>
+        (!entry.introduced || compareVersions(version, entry.introduced) >= 0) &&
+        (!entry.removed || compareVersions(version, entry.removed) < 0)
+    ) || null
+  );
+}
@@ -0,0 +1,245 @@
+/**
+ * Gem Colours
+ *
+ * Socket colour of common PoE 1 skill and support gems (red = Strength, green = Dexterity,
+ * blue = Intelligence, white = any socket); gems not listed are not colour-checked
+ */
+
+import type { SocketColour } from "../models/gear.js";
+
+const RED_GEMS = [
+  // Skills
+  "Ancestral Cry",
+  "Anger",
+  "Armageddon Brand",
+  "Boneshatter",
+  "Determination",
+  "Earthquake",
+  "Enduring Cry",
+  "Flesh and Stone",
+  "General's Cry",
+  "Ground Slam",
+  "Heavy Strike",
+  "Herald of Ash",
+  "Herald of Purity",
+  "Immortal Call",
+  "Infernal Blow",
+  "Intimidating Cry",
+  "Leap Slam",
+  "Molten Shell",
+  "Molten Strike",
+  "Pride",
+  "Punishment",
+  "Purity of Fire",
+  "Rallying Cry",
+  "Righteous Fire",
+  "Shield Charge",
+  "Steelskin",
+  "Summon Flame Golem",
+  "Summon Raging Spirit",
+  "Summon Stone Golem",
+  "Sunder",
+  "Vitality",
+  "Vulnerability",
+  "Warlord's Mark",
+  // Supports
+  "Added Fire Damage",
+  "Bloodlust",
+  "Brutality",
+  "Burning Damage",
+  "Cast when Damage Taken",
+  "Chance to Bleed",
+  "Combustion",
+  "Damage on Full Life",
+  "Elemental Damage with Attacks",
+  "Empower",
+  "Endurance Charge on Melee Stun",
+  "Fire Penetration",
+  "Fortify",
+  "Immolate",
+  "Inspiration",
+  "Life Leech",
+  "Maim",
+  "Meat Shield",
+  "Melee Physical Damage",
+  "Melee Splash",
+  "Multistrike",
+  "Ruthless",
+];
+
+const GREEN_GEMS = [
+  // Skills
+  "Arctic Armour",
+  "Assassin's Mark",
+  "Barrage",
+  "Blade Flurry",
+  "Blade Vortex",
+  "Bladefall",
+  "Blink Arrow",
+  "Blood Rage",
+  "Caustic Arrow",
+  "Dash",
+  "Elemental Hit",
+  "Ethereal Knives",
+  "Frost Blades",
+  "Grace",
+  "Haste",
+  "Hatred",
+  "Herald of Agony",
+  "Herald of Ice",
+  "Ice Shot",
+  "Lacerate",
+  "Lightning Arrow",
+  "Lightning Strike",
+  "Phase Run",
+  "Plague Bearer",
+  "Poacher's Mark",
+  "Precision",
+  "Purity of Lightning",
+  "Rain of Arrows",
+  "Smoke Mine",
+  "Sniper's Mark",
+  "Split Arrow",
+  "Summon Ice Golem",
+  "Temporal Chains",
+  "Tornado Shot",
+  "Toxic Rain",
+  "Venom Gyre",
+  "Whirling Blades",
+  "Withering Step",
+  // Supports
+  "Added Chaos Damage",
+  "Added Cold Damage",
+  "Blind",
+  "Cast on Critical Strike",
+  "Culling Strike",
+  "Deadly Ailments",
+  "Enhance",
+  "Faster Attacks",
+  "Greater Multiple Projectiles",
+  "Hypothermia",
+  "Ice Bite",
+  "Impale",
+  "Lesser Multiple Projectiles",
+  "Mirage Archer",
+  "Onslaught",
+  "Poison",
+  "Swift Affliction",
+  "Trap",
+  "Vicious Projectiles",
+  "Void Manipulation",
+  "Withering Touch",
+];
+
+const BLUE_GEMS = [
+  // Skills
+  "Arc",
+  "Ball Lightning",
+  "Bane",
+  "Blight",
+  "Bone Offering",
+  "Clarity",
+  "Cold Snap",
+  "Conductivity",
+  "Contagion",
+  "Convocation",
+  "Creeping Frost",
+  "Despair",
+  "Discharge",
+  "Discipline",
+  "Elemental Weakness",
+  "Enfeeble",
+  "Essence Drain",
+  "Fireball",
+  "Firestorm",
+  "Flame Dash",
+  "Flame Surge",
+  "Flameblast",
+  "Flammability",
+  "Flesh Offering",
+  "Freezing Pulse",
+  "Frostbite",
+  "Frostblink",
+  "Glacial Cascade",
+  "Herald of Thunder",
+  "Hexblast",
+  "Ice Nova",
+  "Incinerate",
+  "Kinetic Blast",
+  "Lightning Tendrils",
+  "Malevolence",
+  "Power Siphon",
+  "Purity of Elements",
+  "Purity of Ice",
+  "Raise Spectre",
+  "Raise Zombie",
+  "Scorching Ray",
+  "Shock Nova",
+  "Spark",
+  "Spirit Offering",
+  "Storm Brand",
+  "Storm Call",
+  "Summon Lightning Golem",
+  "Summon Skeletons",
+  "Tempest Shield",
+  "Vortex",
+  "Winter Orb",
+  "Wrath",
+  "Zealotry",
+  // Supports
+  "Added Lightning Damage",
+  "Arcane Surge",
+  "Arcanist Brand",
+  "Blasphemy",
+  "Cast While Channelling",
+  "Cold Penetration",
+  "Concentrated Effect",
+  "Controlled Destruction",
+  "Efficacy",
+  "Elemental Army",
+  "Elemental Focus",
+  "Elemental Proliferation",
+  "Energy Leech",
+  "Enlighten",
+  "Faster Casting",
+  "Feeding Frenzy",
+  "Hextouch",
+  "Increased Area of Effect",
+  "Increased Critical Damage",
+  "Increased Critical Strikes",
+  "Infused Channelling",
+  "Intensify",
+  "Lightning Penetration",
+  "Minion Damage",
+  "Minion Life",
+  "Minion Speed",
+  "Power Charge On Critical",
+  "Predator",
+  "Spell Cascade",
+  "Spell Echo",
+  "Trinity",
+  "Unleash",
+];
+
+const WHITE_GEMS = ["Detonate Mines", "Portal"];
+
+/**
+ * Gem colours by lowercased base name
+ */
+export const GEM_COLOURS: Record<string, SocketColour> = Object.fromEntries([
+  ...RED_GEMS.map((name) => [name.toLowerCase(), "R" as const]),
+  ...GREEN_GEMS.map((name) => [name.toLowerCase(), "G" as const]),
+  ...BLUE_GEMS.map((name) => [name.toLowerCase(), "B" as const]),
+  ...WHITE_GEMS.map((name) => [name.toLowerCase(), "W" as const]),
+]);
+
+/**
+ * Finds a gem's socket colour; Vaal and Awakened gems share their base gem's colour
+ * @param name - Gem name (e.g., "Spell Echo", "Awakened Spell Echo Support", "Vaal Arc")
+ * @returns Socket colour, or null when the gem is not listed
+ */
+export function findGemColour(name: string): SocketColour | null {
+  const key = name.trim().toLowerCase();
+  const baseName = key.replace(/^(awakened|vaal) /, "").replace(/ support$/, "");
+  return GEM_COLOURS[key] || GEM_COLOURS[baseName] || null;
+}
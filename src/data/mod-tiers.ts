@@ -0,0 +1,99 @@
+/**
+ * Mod Tiers
+ *
+ * Local PoE 1 mod database: tiers of common explicit mods, keyed by translation template
+ * Tier numbers follow the full mod table (1 = best); some item classes cannot roll the top tiers
+ */
+
+/**
+ * Tier of an explicit mod
+ */
+export interface ModTierData {
+  name: string; // Mod name (prefix/suffix name shown in game)
+  itemLevel: number; // Minimum item level
+  min: number;
+  max: number;
+}
+
+/**
+ * Builds tiers from [name, itemLevel, min, max] rows (worst first, as the game lists them)
+ */
+function tiers(rows: Array<[string, number, number, number]>): ModTierData[] {
+  return rows.map(([name, itemLevel, min, max]) => ({ name, itemLevel, min, max })).reverse();
+}
+
+/**
+ * Mod tiers by template, best tier first
+ */
+export const MOD_TIERS: Record<string, ModTierData[]> = {
+  "+# to maximum Life": tiers([
+    ["Hale", 1, 3, 9],
+    ["Healthy", 5, 10, 19],
+    ["Sanguine", 11, 20, 29],
+    ["Stalwart", 18, 30, 39],
+    ["Stout", 24, 40, 49],
+    ["Robust", 30, 50, 59],
+    ["Rotund", 36, 60, 69],
+    ["Virile", 44, 70, 79],
+    ["Athlete's", 54, 80, 89],
+    ["Fecund", 64, 90, 99],
+    ["Vigorous", 73, 100, 109],
+    ["Rapturous", 81, 110, 119],
+    ["Prime", 86, 120, 129],
+  ]),
+  "+#% to Fire Resistance": tiers([
+    ["of the Whelpling", 1, 6, 11],
+    ["of the Salamander", 12, 12, 17],
+    ["of the Drake", 24, 18, 23],
+    ["of the Kiln", 36, 24, 29],
+    ["of the Furnace", 48, 30, 35],
+    ["of the Volcano", 60, 36, 41],
+    ["of Magma", 72, 42, 45],
+    ["of Tzteosh", 84, 46, 48],
+  ]),
+  "+#% to Cold Resistance": tiers([
+    ["of the Inuit", 1, 6, 11],
+    ["of the Seal", 14, 12, 17],
+    ["of the Penguin", 26, 18, 23],
+    ["of the Yeti", 38, 24, 29],
+    ["of the Walrus", 50, 30, 35],
+    ["of the Polar Bear", 60, 36, 41],
+    ["of the Ice", 72, 42, 45],
+    ["of Haast", 84, 46, 48],
+  ]),
+  "+#% to Lightning Resistance": tiers([
+    ["of the Cloud", 1, 6, 11],
+    ["of the Squall", 13, 12, 17],
+    ["of the Storm", 25, 18, 23],
+    ["of the Thunderhead", 37, 24, 29],
+    ["of the Tempest", 49, 30, 35],
+    ["of the Maelstrom", 60, 36, 41],
+    ["of the Lightning", 71, 42, 45],
+    ["of Ephij", 84, 46, 48],
+  ]),
+  "+#% to Chaos Resistance": tiers([
+    ["of the Lost", 16, 5, 10],
+    ["of Banishment", 30, 11, 15],
+    ["of Eviction", 44, 16, 20],
+    ["of Expulsion", 56, 21, 25],
+    ["of Exile", 65, 26, 30],
+    ["of Bameth", 81, 31, 35],
+  ]),
+  "+#% to all Elemental Resistances": tiers([
+    ["of the Crystal", 12, 3, 5],
+    ["of the Prism", 24, 6, 8],
+    ["of the Kaleidoscope", 36, 9, 11],
+    ["of Variegation", 48, 12, 14],
+    ["of the Rainbow", 60, 15, 16],
+    ["of the Span", 85, 17, 18],
+  ]),
+  // Boots roll a fixed value per tier
+  "#% increased Movement Speed": tiers([
+    ["Runner's", 1, 10, 10],
+    ["Sprinter's", 15, 15, 15],
+    ["Stallion's", 30, 20, 20],
+    ["Gazelle's", 40, 25, 25],
+    ["Cheetah's", 55, 30, 30],
+    ["Hellion's", 86, 35, 35],
+  ]),
+};
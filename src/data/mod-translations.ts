@@ -0,0 +1,237 @@
+/**
+ * Mod Translations
+ *
+ * Maps modifier text templates to canonical stat IDs ("#" marks a number)
+ */
+
+import type { AffixGeneration } from "../models/gear.js";
+
+/**
+ * Modifier text template
+ * A line with one stat per "#" gives each stat one value; a single stat takes every
+ * value (e.g., added damage min and max); several stats with one "#" share it
+ */
+export interface ModTranslation {
+  template: string; // e.g. "+#% to Fire Resistance" (the leading "+" is optional in the text)
+  stats: string[]; // Canonical stat IDs
+  generation?: AffixGeneration; // Prefix/suffix (omitted when it varies by item class)
+}
+
+const DAMAGE_TYPES = ["Physical", "Fire", "Cold", "Lightning", "Chaos"];
+const ELEMENTS = ["Fire", "Cold", "Lightning"];
+const ATTRIBUTES = ["Strength", "Dexterity", "Intelligence"];
+
+/**
+ * Converts display text to a stat ID fragment ("Energy Shield" -> "energy_shield")
+ */
+function toStatId(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, "_");
+}
+
+/**
+ * Builds the "X and Y" pairs of a list ("Fire and Cold", "Fire and Lightning", ...)
+ */
+function pairs(names: string[]): Array<[string, string]> {
+  const result: Array<[string, string]> = [];
+  names.forEach((first, index) =>
+    names.slice(index + 1).forEach((second) => result.push([first, second]))
+  );
+  return result;
+}
+
+/**
+ * Translation table
+ * "increased"/"more" templates also match "reduced"/"less" with negated values
+ */
+export const MOD_TRANSLATIONS: ModTranslation[] = [
+  // Life, mana and energy shield
+  { template: "+# to maximum Life", stats: ["maximum_life"], generation: "prefix" },
+  { template: "#% increased maximum Life", stats: ["maximum_life_increased"] },
+  { template: "+# to maximum Mana", stats: ["maximum_mana"], generation: "prefix" },
+  { template: "#% increased maximum Mana", stats: ["maximum_mana_increased"] },
+  {
+    template: "+# to maximum Energy Shield",
+    stats: ["maximum_energy_shield"],
+    generation: "prefix",
+  },
+  { template: "#% increased maximum Energy Shield", stats: ["maximum_energy_shield_increased"] },
+  { template: "+# to maximum Life and Mana", stats: ["maximum_life", "maximum_mana"] },
+
+  // Defences
+  { template: "+# to Armour", stats: ["armour"], generation: "prefix" },
+  { template: "+# to Evasion Rating", stats: ["evasion_rating"], generation: "prefix" },
+  { template: "+# to Ward", stats: ["ward"], generation: "prefix" },
+  { template: "#% increased Armour", stats: ["armour_increased"], generation: "prefix" },
+  {
+    template: "#% increased Evasion Rating",
+    stats: ["evasion_rating_increased"],
+    generation: "prefix",
+  },
+  {
+    template: "#% increased Energy Shield",
+    stats: ["energy_shield_increased"],
+    generation: "prefix",
+  },
+  {
+    template: "#% increased Armour and Evasion",
+    stats: ["armour_increased", "evasion_rating_increased"],
+    generation: "prefix",
+  },
+  {
+    template: "#% increased Armour and Energy Shield",
+    stats: ["armour_increased", "energy_shield_increased"],
+    generation: "prefix",
+  },
+  {
+    template: "#% increased Evasion and Energy Shield",
+    stats: ["evasion_rating_increased", "energy_shield_increased"],
+    generation: "prefix",
+  },
+  {
+    template: "+#% chance to Suppress Spell Damage",
+    stats: ["spell_suppression_chance"],
+    generation: "suffix",
+  },
+  { template: "+#% Chance to Block", stats: ["block_chance"] },
+  { template: "+#% Chance to Block Attack Damage", stats: ["block_chance"] },
+  { template: "#% Chance to Block Spell Damage", stats: ["spell_block_chance"] },
+  { template: "+#% Chance to Block Spell Damage", stats: ["spell_block_chance"] },
+
+  // Resistances
+  ...[...ELEMENTS, "Chaos"].map((type) => ({
+    template: `+#% to ${type} Resistance`,
+    stats: [`${toStatId(type)}_resistance`],
+    generation: "suffix" as const,
+  })),
+  ...pairs([...ELEMENTS, "Chaos"]).map(([first, second]) => ({
+    template: `+#% to ${first} and ${second} Resistances`,
+    stats: [`${toStatId(first)}_resistance`, `${toStatId(second)}_resistance`],
+    generation: "suffix" as const,
+  })),
+  {
+    template: "+#% to all Elemental Resistances",
+    stats: ELEMENTS.map((type) => `${toStatId(type)}_resistance`),
+    generation: "suffix",
+  },
+  ...[...ELEMENTS, "Chaos"].map((type) => ({
+    template: `+#% to maximum ${type} Resistance`,
+    stats: [`maximum_${toStatId(type)}_resistance`],
+  })),
+  {
+    template: "+#% to all maximum Elemental Resistances",
+    stats: ELEMENTS.map((type) => `maximum_${toStatId(type)}_resistance`),
+  },
+
+  // Attributes
+  ...ATTRIBUTES.map((attribute) => ({
+    template: `+# to ${attribute}`,
+    stats: [toStatId(attribute)],
+    generation: "suffix" as const,
+  })),
+  ...pairs(ATTRIBUTES).map(([first, second]) => ({
+    template: `+# to ${first} and ${second}`,
+    stats: [toStatId(first), toStatId(second)],
+  })),
+  { template: "+# to all Attributes", stats: ATTRIBUTES.map(toStatId), generation: "suffix" },
+
+  // Speed and utility
+  {
+    template: "#% increased Movement Speed",
+    stats: ["movement_speed_increased"],
+    generation: "prefix",
+  },
+  {
+    template: "#% increased Attack Speed",
+    stats: ["attack_speed_increased"],
+    generation: "suffix",
+  },
+  { template: "#% increased Cast Speed", stats: ["cast_speed_increased"], generation: "suffix" },
+  { template: "#% increased Area of Effect", stats: ["area_of_effect_increased"] },
+  { template: "#% increased Rarity of Items found", stats: ["item_rarity_increased"] },
+  { template: "+# to Accuracy Rating", stats: ["accuracy_rating"], generation: "suffix" },
+
+  // Recovery
+  { template: "Regenerate # Life per second", stats: ["life_regeneration"], generation: "suffix" },
+  { template: "Regenerate #% of Life per second", stats: ["life_regeneration_percent"] },
+  {
+    template: "#% increased Mana Regeneration Rate",
+    stats: ["mana_regeneration_increased"],
+    generation: "suffix",
+  },
+  {
+    template: "#% of Physical Attack Damage Leeched as Life",
+    stats: ["physical_attack_damage_leeched_as_life"],
+  },
+  {
+    template: "+# Life gained for each Enemy hit by your Attacks",
+    stats: ["life_gain_on_hit"],
+    generation: "suffix",
+  },
+
+  // Critical strikes
+  {
+    template: "#% increased Global Critical Strike Chance",
+    stats: ["critical_strike_chance_increased"],
+    generation: "suffix",
+  },
+  {
+    template: "#% increased Critical Strike Chance",
+    stats: ["critical_strike_chance_increased"],
+    generation: "suffix",
+  },
+  {
+    template: "+#% to Global Critical Strike Multiplier",
+    stats: ["critical_strike_multiplier"],
+    generation: "suffix",
+  },
+  {
+    template: "+#% to Critical Strike Multiplier",
+    stats: ["critical_strike_multiplier"],
+    generation: "suffix",
+  },
+  { template: "+#% to Critical Damage Bonus", stats: ["critical_strike_multiplier"] },
+
+  // Damage
+  { template: "#% increased Damage", stats: ["damage_increased"] },
+  { template: "#% increased Attack Damage", stats: ["attack_damage_increased"] },
+  {
+    template: "#% increased Spell Damage",
+    stats: ["spell_damage_increased"],
+    generation: "prefix",
+  },
+  { template: "#% increased Elemental Damage", stats: ["elemental_damage_increased"] },
+  {
+    template: "#% increased Elemental Damage with Attack Skills",
+    stats: ["elemental_damage_with_attacks_increased"],
+    generation: "prefix",
+  },
+  ...DAMAGE_TYPES.map((type) => ({
+    template: `#% increased ${type} Damage`,
+    stats: [`${toStatId(type)}_damage_increased`],
+    generation: "prefix" as const,
+  })),
+  ...["Damage", "Attack Damage", "Spell Damage"].map((type) => ({
+    template: `#% more ${type}`,
+    stats: [`${toStatId(type)}_more`],
+  })),
+  ...DAMAGE_TYPES.flatMap((type) =>
+    ["", " to Attacks", " to Spells"].map((target) => ({
+      template: `Adds # to # ${type} Damage${target}`,
+      stats: [`added_${toStatId(type)}_damage${toStatId(target)}`],
+      generation: "prefix" as const,
+    }))
+  ),
+  {
+    template: "Damage Penetrates #% Elemental Resistances",
+    stats: ["elemental_resistance_penetration"],
+  },
+  ...ELEMENTS.map((type) => ({
+    template: `Damage Penetrates #% ${type} Resistance`,
+    stats: [`${toStatId(type)}_resistance_penetration`],
+  })),
+
+  // Gem levels
+  { template: "+# to Level of Socketed Gems", stats: ["socketed_gem_level"] },
+  { template: "+# to Level of all Spell Skill Gems", stats: ["spell_skill_gem_level"] },
+  { template: "+# to Level of all Minion Skill Gems", stats: ["minion_skill_gem_level"] },
+];
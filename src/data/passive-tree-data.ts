@@ -0,0 +1,236 @@
+/**
+ * Passive Tree Data
+ *
+ * Loads the official passive tree export JSON (data/tree/<version>.json) and indexes nodes by ID
+ */
+
+import { existsSync, readdirSync, readFileSync } from "fs";
+import { join } from "path";
+
+/**
+ * Directory holding tree exports, one file per tree version (e.g., data/tree/3_25.json)
+ */
+const TREE_DATA_DIR = join(process.cwd(), "data", "tree");
+
+/**
+ * File used when no export matches the requested version
+ */
+const LATEST_TREE_FILE = "latest.json";
+
+/**
+ * Mastery effect option on a mastery node
+ */
+export interface MasteryEffectData {
+  effect: string; // Effect ID (referenced by masteryEffects selections)
+  stats: string[]; // Effect stat text
+}
+
+/**
+ * Passive node from the tree export
+ */
+export interface PassiveNodeData {
+  id: string;
+  name: string;
+  stats: string[]; // Stat text lines
+  isNotable: boolean;
+  isKeystone: boolean;
+  isMastery: boolean;
+  isJewelSocket: boolean;
+  isAscendancyStart: boolean;
+  ascendancyName: string | null; // Set for ascendancy nodes
+  group: string | null;
+  orbit: number;
+  orbitIndex: number;
+  out: string[]; // Connected node IDs (outgoing)
+  in: string[]; // Connected node IDs (incoming)
+  masteryEffects: MasteryEffectData[];
+}
+
+/**
+ * Node group (cluster of nodes around a shared centre)
+ */
+export interface PassiveGroupData {
+  id: string;
+  x: number;
+  y: number;
+  orbits: number[];
+  nodes: string[];
+}
+
+/**
+ * Indexed passive tree for one tree version
+ */
+export interface PassiveTreeData {
+  version: string; // Normalized version (e.g., "3_25")
+  nodes: Map<string, PassiveNodeData>;
+  notablesByName: Map<string, PassiveNodeData>; // Notables and keystones keyed by lowercase name
+  groups: Map<string, PassiveGroupData>;
+  orbitRadii: number[];
+  skillsPerOrbit: number[];
+}
+
+/**
+ * Loaded trees keyed by normalized version (null = no export available)
+ */
+const treeCache = new Map<string, PassiveTreeData | null>();
+
+/**
+ * Normalizes a tree version ("3.25.0", "3_25", "3.25") to "3_25"
+ */
+export function normalizeTreeVersion(version: string | null | undefined): string {
+  const parts = String(version ?? "")
+    .split(/[._]/)
+    .filter((part) => part.length > 0);
+
+  if (parts.length < 2) {
+    return parts[0] || "latest";
+  }
+
+  return `${parts[0]}_${parts[1]}`;
+}
+
+/**
+ * Loads the passive tree export for a tree version
+ * Falls back to latest.json, then to the newest versioned export
+ * @param version - Tree version (e.g., "3_25" or "3.25.0")
+ * @returns Indexed tree data, or null if no export is available
+ */
+export function loadPassiveTreeData(version?: string | null): PassiveTreeData | null {
+  const normalized = normalizeTreeVersion(version);
+
+  if (treeCache.has(normalized)) {
+    return treeCache.get(normalized) ?? null;
+  }
+
+  const filePath = resolveTreeFile(normalized);
+  let treeData: PassiveTreeData | null = null;
+
+  if (filePath) {
+    try {
+      const raw = JSON.parse(readFileSync(filePath, "utf-8"));
+      treeData = indexTreeExport(raw, normalized);
+    } catch (error) {
+      console.error(`Failed to load passive tree data from ${filePath}:`, error);
+    }
+  }
+
+  treeCache.set(normalized, treeData);
+  return treeData;
+}
+
+/**
+ * Looks up a single passive node by ID
+ * @param nodeId - Node ID from the passive tree
+ * @param version - Tree version (defaults to the latest available export)
+ * @returns Node data, or null if unknown
+ */
+export function getPassiveNode(nodeId: string, version?: string | null): PassiveNodeData | null {
+  return loadPassiveTreeData(version)?.nodes.get(String(nodeId)) ?? null;
+}
+
+/**
+ * Looks up a notable or keystone by name (e.g., for "Allocates <name>" anoints)
+ * @param name - Node name (case-insensitive)
+ * @param version - Tree version (defaults to the latest available export)
+ * @returns Node data, or null if unknown
+ */
+export function findNotableByName(name: string, version?: string | null): PassiveNodeData | null {
+  return loadPassiveTreeData(version)?.notablesByName.get(name.trim().toLowerCase()) ?? null;
+}
+
+/**
+ * Clears loaded tree data (used after data files are refreshed)
+ */
+export function clearPassiveTreeCache(): void {
+  treeCache.clear();
+}
+
+/**
+ * Finds the export file for a normalized version
+ */
+function resolveTreeFile(normalized: string): string | null {
+  const exactPath = join(TREE_DATA_DIR, `${normalized}.json`);
+  if (existsSync(exactPath)) {
+    return exactPath;
+  }
+
+  const latestPath = join(TREE_DATA_DIR, LATEST_TREE_FILE);
+  if (existsSync(latestPath)) {
+    return latestPath;
+  }
+
+  if (!existsSync(TREE_DATA_DIR)) {
+    return null;
+  }
+
+  // Newest versioned export ("3_25.json" sorts after "3_9.json" numerically)
+  const versioned = readdirSync(TREE_DATA_DIR)
+    .filter((file) => /^\d+_\d+\.json$/.test(file))
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+
+  return versioned.length > 0 ? join(TREE_DATA_DIR, versioned[versioned.length - 1]) : null;
+}
+
+/**
+ * Converts the raw export JSON into indexed tree data
+ */
+function indexTreeExport(raw: any, version: string): PassiveTreeData {
+  const nodes = new Map<string, PassiveNodeData>();
+  const notablesByName = new Map<string, PassiveNodeData>();
+  const groups = new Map<string, PassiveGroupData>();
+
+  for (const [key, node] of Object.entries<any>(raw?.nodes || {})) {
+    // The export includes a synthetic "root" node without a skill ID
+    const id = node?.skill !== undefined ? String(node.skill) : key;
+    if (id === "root") {
+      continue;
+    }
+
+    const entry: PassiveNodeData = {
+      id,
+      name: node.name || "",
+      stats: Array.isArray(node.stats) ? node.stats.map(String) : [],
+      isNotable: node.isNotable === true,
+      isKeystone: node.isKeystone === true,
+      isMastery: node.isMastery === true,
+      isJewelSocket: node.isJewelSocket === true,
+      isAscendancyStart: node.isAscendancyStart === true,
+      ascendancyName: node.ascendancyName || null,
+      group: node.group !== undefined ? String(node.group) : null,
+      orbit: node.orbit ?? 0,
+      orbitIndex: node.orbitIndex ?? 0,
+      out: Array.isArray(node.out) ? node.out.map(String) : [],
+      in: Array.isArray(node.in) ? node.in.map(String) : [],
+      masteryEffects: Array.isArray(node.masteryEffects)
+        ? node.masteryEffects.map((effect: any) => ({
+            effect: String(effect.effect),
+            stats: Array.isArray(effect.stats) ? effect.stats.map(String) : [],
+          }))
+        : [],
+    };
+
+    nodes.set(id, entry);
+    if ((entry.isNotable || entry.isKeystone) && entry.name && !entry.ascendancyName) {
+      notablesByName.set(entry.name.toLowerCase(), entry);
+    }
+  }
+
+  for (const [key, group] of Object.entries<any>(raw?.groups || {})) {
+    groups.set(String(key), {
+      id: String(key),
+      x: group.x ?? 0,
+      y: group.y ?? 0,
+      orbits: Array.isArray(group.orbits) ? group.orbits : [],
+      nodes: Array.isArray(group.nodes) ? group.nodes.map(String) : [],
+    });
+  }
+
+  return {
+    version,
+    nodes,
+    notablesByName,
+    groups,
+    orbitRadii: raw?.constants?.orbitRadii || [],
+    skillsPerOrbit: raw?.constants?.skillsPerOrbit || [],
+  };
+}
@@ -0,0 +1,55 @@
+/**
+ * Version Compatibility Matrix
+ *
+ * PoB and game versions this server understands, per game
+ */
+
+import type { GameType } from "../models/version.js";
+
+/**
+ * Supported version range for one game
+ */
+export interface GameCompatibility {
+  game: GameType;
+  label: string;
+  targetVersions: string[]; // <Build targetVersion> values written by this game's PoB
+  minPoBVersion: string; // Oldest PoB release that can be parsed
+  latestPoBVersion: string; // Newest PoB release line checked (newer ones parse with a warning)
+  minGameVersion: string; // Oldest game version (tree version) that can be parsed
+  latestGameVersion: string; // Newest game version checked (newer ones parse with a warning)
+  limitations: string[]; // Known gaps, reported as warnings for every build of this game
+}
+
+/**
+ * Compatibility matrix
+ */
+export const VERSION_COMPATIBILITY: Record<GameType, GameCompatibility> = {
+  poe1: {
+    game: "poe1",
+    label: "Path of Exile",
+    targetVersions: ["3_0"],
+    minPoBVersion: "1.4.170",
+    latestPoBVersion: "2.52",
+    minGameVersion: "3.0",
+    latestGameVersion: "3.26",
+    limitations: [],
+  },
+  poe2: {
+    game: "poe2",
+    label: "Path of Exile 2",
+    targetVersions: [],
+    minPoBVersion: "0.1.0",
+    latestPoBVersion: "0.8",
+    minGameVersion: "0.1",
+    latestGameVersion: "0.3",
+    limitations: [
+      "Passive tree data is only bundled for Path of Exile, so keystone and notable names may be missing",
+    ],
+  },
+};
+
+/**
+ * <Build targetVersion> values of PoB releases that are no longer supported
+ * ("2_6" was written by PoB 1.x for game version 2.6)
+ */
+export const UNSUPPORTED_TARGET_VERSIONS = ["2_6"];
@@ -9,6 +9,11 @@
  * - REDIS_URL: Redis URL for distributed cache (optional, defaults to in-memory)
  * - CACHE_SIZE: Maximum cache entries (default: 100)
  * - CACHE_TTL: Cache TTL in milliseconds (default: 3600000 = 1 hour)
+ * - POBBIN_BASE_URL, PASTEBIN_BASE_URL, POE_NINJA_BASE_URL: Share link base URLs (optional)
+ * - POB_FILE_DIR: Directory parse_pob_code may read build files from (optional, file input disabled when unset)
+ * - POB_MAX_DECOMPRESSED_SIZE: Maximum decompressed build size in bytes (default: 1048576 = 1MB)
+ * - POB_MAX_XML_DEPTH: Maximum XML nesting depth (default: 32)
+ * - POB_MAX_XML_ELEMENTS: Maximum number of XML elements (default: 50000)
  */
 
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
@@ -20,6 +25,7 @@ import {
 import { parsePobCodeTool } from "./tools/parse_pob_code.js";
 import { analyzeBuildTool } from "./tools/analyze_build.js";
 import { suggestImprovementsTool } from "./tools/suggest_improvements.js";
+import { encodeBuildTool } from "./tools/encode_build.js";
 
 /**
  * Environment configuration
@@ -70,6 +76,12 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
           "Generate actionable improvement suggestions for a build",
         inputSchema: suggestImprovementsTool.inputSchema,
       },
+      {
+        name: "encode_build",
+        description:
+          "Encode a parsed build back into a Path of Building build code",
+        inputSchema: encodeBuildTool.inputSchema,
+      },
     ],
   };
 });
@@ -105,17 +117,32 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
     let result;
     switch (name) {
       case "parse_pob_code":
-        result = await parsePobCodeTool.handler(args as { buildCode: string });
+        result = await parsePobCodeTool.handler(
+          args as {
+            buildCode?: string;
+            buildXml?: string;
+            filePath?: string;
+            itemSet?: string;
+            treeSpec?: string;
+            skillSet?: string;
+          }
+        );
         break;
 
       case "analyze_build":
-        result = await analyzeBuildTool.handler(args as { build: any });
+        result = await analyzeBuildTool.handler(
+          args as { build: any; itemSet?: string; treeSpec?: string; skillSet?: string }
+        );
         break;
 
       case "suggest_improvements":
         result = await suggestImprovementsTool.handler(args as { build: any; analysis: any });
         break;
 
+      case "encode_build":
+        result = await encodeBuildTool.handler(args as { build: any });
+        break;
+
       default:
         throw new Error(`Unknown tool: ${name}`);
     }
@@ -179,6 +206,7 @@ async function main() {
   console.error("Registered tools:");
   console.error(`  - parse_pob_code: Parse Path of Building build codes`);
   console.error(`  - analyze_build: Analyze build strengths/weaknesses`);
+  console.error(`  - encode_build: Encode a parsed build back into a build code`);
   console.error(`  - suggest_improvements: Generate improvement suggestions`);
   console.error("=".repeat(60));
   console.error("Server ready. Waiting for tool calls...");
@@ -27,6 +27,34 @@ export type SuggestionCategory = "gems" | "passives" | "gear" | "utility";
  */
 export type SuggestionPriority = "critical" | "important" | "optional";
 
+/**
+ * Whether the build meets a goal stated in its notes
+ */
+export type GoalStatus = "met" | "not_met" | "unknown";
+
+/**
+ * Goal stated by the build author (e.g., "Get 5k life") compared with the build
+ */
+export interface AuthorGoal {
+  goal: string; // Notes line the goal was found in
+  status: GoalStatus;
+  detail: string; // Target vs detected value
+}
+
+/**
+ * Socket fit of a skill group in the item it is socketed in
+ */
+export interface SkillLinkSummary {
+  skillName: string;
+  itemSlot: string; // Gear slot (e.g., "BodyArmour")
+  itemName: string;
+  sockets: string; // Item sockets as written by PoB (e.g., "R-R-G B")
+  gemCount: number; // Gems in the skill group
+  linkedSockets: number; // Size of the linked socket group the skill fits in
+  colourMismatches: string[];
+  unfittedGems: string[]; // Gems that do not fit in the linked sockets
+}
+
 /**
  * Build analysis output entity
  */
@@ -36,6 +64,9 @@ export interface BuildAnalysis {
   playstyleType: PlaystyleType; // Detected playstyle
   defensiveRating: DefensiveRating; // Defensive capability assessment
   offensiveRating: OffensiveRating; // Offensive capability assessment
+  dpsAssumptions: string[]; // Config assumptions behind the displayed DPS (charges, boss type, ...)
+  authorGoals: AuthorGoal[]; // Goals from the build notes and whether they are met
+  socketLinks: SkillLinkSummary[]; // Socket fit of enabled skill groups in their items
   analyzedAt: string; // ISO 8601 timestamp
 }
 
@@ -2,6 +2,14 @@
  * Core build entity types
  */
 
+import type { GearSlot, GearSlotType, ItemSet } from "./gear.js";
+import type { PassiveSpec, PassiveTree } from "./passive-tree.js";
+import type { Jewel } from "./jewel.js";
+import type { BuildConfig } from "./config.js";
+import type { BuildNotes } from "./notes.js";
+import type { VersionInfo } from "./version.js";
+import type { Diagnostic } from "./diagnostic.js";
+
 /**
  * Character class (PoE 1 and PoE 2)
  */
@@ -13,6 +21,7 @@ export type CharacterClass =
   | "Shadow"
   | "Templar"
   | "Scion" // PoE 1 classes
+  | "Warrior"
   | "Mercenary"
   | "Monk"
   | "Sorceress"
@@ -20,7 +29,7 @@ export type CharacterClass =
   | "Druid"; // PoE 2 classes
 
 /**
- * Ascendancy classes (subset - full list in implementation)
+ * Ascendancy classes (PoE 1 and PoE 2; see data/character-classes.ts for the class of each)
  */
 export type Ascendancy =
   | "Necromancer"
@@ -29,6 +38,7 @@ export type Ascendancy =
   | "Deadeye"
   | "Pathfinder"
   | "Raider"
+  | "Warden"
   | "Gladiator"
   | "Champion"
   | "Slayer"
@@ -41,16 +51,48 @@ export type Ascendancy =
   | "Juggernaut"
   | "Berserker"
   | "Chieftain"
+  | "Ascendant" // PoE 1 ascendancies
+  | "Titan"
+  | "Warbringer"
+  | "Smith of Kitava"
+  | "Witchhunter"
+  | "Gemling Legionnaire"
+  | "Tactician"
+  | "Invoker"
+  | "Acolyte of Chayula"
+  | "Stormweaver"
+  | "Chronomancer"
+  | "Disciple of Varashta"
+  | "Amazon"
+  | "Ritualist"
+  | "Infernalist"
+  | "Blood Mage"
+  | "Lich"
+  | "Oracle"
+  | "Shaman" // PoE 2 ascendancies (Deadeye and Pathfinder are shared with PoE 1)
   | null;
 
+/**
+ * Bandit quest choice (PoE 1; "None" = kill all three for 2 passive points)
+ */
+export type Bandit = "None" | "Alira" | "Kraityn" | "Oak";
+
 /**
  * Character entity
  */
 export interface Character {
   class: CharacterClass;
   ascendancy: Ascendancy | null;
+  classId: number | null; // PoB class ID (tree spec classId), null when unknown
+  ascendClassId: number | null; // PoB ascendancy ID within the class (0 = none), null when unknown
   level: number;
   league: string | null;
+  bandit: Bandit | null; // null for PoE 2 builds or when not recorded
+  pantheonMajorGod: string | null; // PoB value (e.g., "TheBrineKing"), null when none is selected
+  pantheonMinorGod: string | null; // PoB value (e.g., "Shakari"), null when none is selected
+  mainSocketGroup: number | null; // 1-based main skill group from <Build mainSocketGroup>
+  viewMode: string | null; // PoB tab the build was saved on (e.g., "TREE", "ITEMS")
+  activeWeaponSet: 1 | 2; // Weapon set in use (second set when <Items useSecondWeaponSet="true">); analysis only reads its weapons
 }
 
 /**
@@ -63,16 +105,60 @@ export interface SupportGem {
 }
 
 /**
- * Skill setup entity (main skill + supports)
+ * Gem socketed in a skill group (<Gem> element)
+ */
+export interface SkillGem {
+  name: string; // Display name (nameSpec)
+  skillId: string | null; // Granted effect ID (e.g., "SupportControlledDestruction")
+  gemId: string | null; // Gem metadata path
+  enabled: boolean;
+  level: number;
+  quality: number;
+  qualityId: string; // Quality type ("Default", "Alternate1", ...)
+  isSupport: boolean;
+}
+
+/**
+ * How a skill group fits the sockets of the item it is socketed in
+ */
+export interface SocketLinkReport {
+  itemName: string;
+  sockets: string; // Item's sockets line (e.g., "R-R-G B")
+  linkedSockets: number; // Size of the linked socket group the gems are placed in
+  colourMismatches: string[]; // Socket colours the gems need but the linked group lacks
+  unfittedGems: string[]; // Gems beyond the free sockets of the linked group
+}
+
+/**
+ * Skill setup entity (socket group: active skill + supports)
  */
 export interface SkillSetup {
   id: string;
-  skillName: string;
+  skillName: string; // Selected active skill of the group
   gemLevel: number;
   quality: number;
-  supports: SupportGem[];
-  linkCount: number;
-  isMainSkill: boolean;
+  supports: SupportGem[]; // Enabled support gems
+  gems: SkillGem[]; // Every gem in the group, in socket order
+  linkCount: number; // Linked gems (capped by the item's linked sockets when known)
+  isMainSkill: boolean; // Group selected by <Build mainSocketGroup>
+  slot: string | null; // Item slot the group is socketed in (e.g., "Body Armour")
+  itemSlot: GearSlotType | null; // Gear slot matching slot (null for gems granted without sockets)
+  socketLinks: SocketLinkReport | null; // Fit against the equipped item's sockets (null when unknown)
+  source: string | null; // Granting item for skills that take no socket (e.g., "Item:5:Ngamahu's Flame")
+  label: string | null;
+  enabled: boolean;
+  includeInFullDPS: boolean;
+  mainActiveSkill: number; // 1-based index of the selected active skill in the group
+}
+
+/**
+ * Skill set (<SkillSet>): one gem loadout, e.g. mapping vs bossing
+ */
+export interface SkillSet {
+  id: string; // SkillSet id attribute
+  title: string; // SkillSet title ("Default" when untitled)
+  active: boolean; // True for the build's activeSkillSet
+  skills: SkillSetup[];
 }
 
 /**
@@ -88,16 +174,35 @@ export interface BuildCode {
  */
 export interface ParsedBuild {
   buildId: string; // SHA-256 hash of original build code
-  version: string; // PoB version (e.g., "1.4.170")
-  gameVersion: string; // PoE version (e.g., "3.25.0")
+  version: string; // PoB version (e.g., "2.48.2"), "unknown" when the build does not record it
+  gameVersion: string; // Game version from the passive tree (e.g., "3.25"), "unknown" when missing
+  versionInfo: VersionInfo; // Detected game, versions and compatibility warnings
   character: Character;
-  skills: SkillSetup[];
-  passives: any; // Will import from passive-tree.ts
-  gear: any[]; // Will import from gear.ts
-  stats: Stat[];
+  skills: SkillSetup[]; // Skill groups of the active (or selected) skill set
+  skillSets: SkillSet[]; // Every skill set stored in the build
+  passives: PassiveTree; // Passive tree of the active (or selected) spec
+  passiveSpecs: PassiveSpec[]; // Every passive tree spec stored in the build
+  jewels: Jewel[]; // Jewels socketed in the active (or selected) spec
+  gear: GearSlot[]; // Gear of the active (or selected) item set
+  itemSets: ItemSet[]; // Every item set stored in the build
+  stats: Stat[]; // Player stats (PoB's calculated <PlayerStat> output)
+  minionStats: Stat[]; // Minion stats (<MinionStat>), empty for builds without minions
+  rawStats: RawStat[]; // Every <PlayerStat> entry as PoB stored it (including keys without a mapping)
+  rawMinionStats: RawStat[]; // Every <MinionStat> entry as PoB stored it
+  config: BuildConfig; // Configuration the calculated stats assume
+  notes: BuildNotes | null; // Author's notes (null when the build has none)
+  diagnostics: Diagnostic[]; // Sections that failed to parse, were missing or fell back to defaults
   parsedAt: string; // ISO 8601 timestamp
 }
 
+/**
+ * PoB stat entry (<PlayerStat stat="LifeUnreserved" value="4200"/>)
+ */
+export interface RawStat {
+  stat: string; // PoB stat key
+  value: number;
+}
+
 /**
  * Stat entity
  */
@@ -0,0 +1,55 @@
+/**
+ * Build configuration entity types (PoB Configuration tab)
+ */
+
+/**
+ * Boss type assumed for the enemy ("enemyIsBoss")
+ */
+export type EnemyBossType = "None" | "Boss" | "Pinnacle" | "Uber";
+
+/**
+ * Raw value of a config <Input> (string, boolean or number attribute)
+ */
+export type ConfigInputValue = string | number | boolean;
+
+/**
+ * Enemy the DPS and defences are calculated against
+ */
+export interface EnemyConfig {
+  level: number | null; // Enemy level (null = PoB default)
+  bossType: EnemyBossType;
+  fireResist: number | null; // Overridden resistances (null = PoB default)
+  coldResist: number | null;
+  lightningResist: number | null;
+  chaosResist: number | null;
+  armour: number | null;
+  evasion: number | null;
+  conditions: string[]; // Enabled enemy conditions (e.g., "Shocked", "Intimidated")
+}
+
+/**
+ * Charge type toggle ("usePowerCharges" / "overridePowerCharges")
+ */
+export interface ChargeConfig {
+  enabled: boolean;
+  count: number | null; // Overridden charge count (null = maximum)
+}
+
+/**
+ * Build configuration aggregate
+ */
+export interface BuildConfig {
+  setId: string | null; // ConfigSet id (null for builds without config sets)
+  title: string | null;
+  enemy: EnemyConfig;
+  charges: {
+    power: ChargeConfig;
+    frenzy: ChargeConfig;
+    endurance: ChargeConfig;
+  };
+  usingFlasks: boolean; // "Are you always using a flask?"
+  buffs: string[]; // Enabled buff toggles (input names, e.g., "buffOnslaught")
+  conditions: string[]; // Enabled player conditions (input names, e.g., "conditionFullLife")
+  customModifiers: string[]; // Lines from "customMods"
+  inputs: Record<string, ConfigInputValue>; // Every input, keyed by name
+}
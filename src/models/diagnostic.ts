@@ -0,0 +1,46 @@
+/**
+ * Parse diagnostic entity types
+ */
+
+/**
+ * Build section a diagnostic refers to
+ */
+export type BuildSection =
+  | "version"
+  | "character"
+  | "skills"
+  | "tree"
+  | "items"
+  | "stats"
+  | "config"
+  | "notes";
+
+/**
+ * Diagnostic severity
+ * - error: the section could not be read; its data is missing or partial
+ * - warning: a default or fallback value was used
+ * - info: noteworthy but harmless
+ */
+export type DiagnosticSeverity = "error" | "warning" | "info";
+
+/**
+ * Diagnostic codes
+ */
+export type DiagnosticCode =
+  | "SECTION_PARSE_FAILED" // Parser threw; the section degraded to its empty/default value
+  | "SECTION_MISSING" // Section is absent from the XML
+  | "SECTION_EMPTY" // Section is present but holds no usable entries
+  | "DEFAULT_VALUE" // A required value is missing and a default was used
+  | "INVALID_VALUE" // A value is unknown or inconsistent with another value
+  | "VERSION_WARNING"; // Version compatibility warning
+
+/**
+ * Problem found while parsing a build
+ */
+export interface Diagnostic {
+  section: BuildSection;
+  severity: DiagnosticSeverity;
+  code: DiagnosticCode;
+  message: string;
+  path: string; // XML path (e.g., "/PathOfBuilding/Items" or "/PathOfBuilding/Build/@level")
+}
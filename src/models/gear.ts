@@ -8,6 +8,8 @@
 export type GearSlotType =
   | "Weapon1"
   | "Weapon2"
+  | "Weapon1Swap"
+  | "Weapon2Swap"
   | "Helmet"
   | "BodyArmour"
   | "Gloves"
@@ -15,26 +17,142 @@ export type GearSlotType =
   | "Amulet"
   | "Ring1"
   | "Ring2"
+  | "Ring3"
   | "Belt"
   | "Flask1"
   | "Flask2"
   | "Flask3"
   | "Flask4"
-  | "Flask5";
+  | "Flask5"
+  | AbyssalSocketSlotType
+  | JewelSocketSlotType;
+
+/**
+ * Abyssal socket on an equipped item (e.g., "BeltAbyssalSocket1")
+ */
+export type AbyssalSocketSlotType = `${string}AbyssalSocket${number}`;
+
+/**
+ * Passive tree jewel socket, keyed by node ID (e.g., "Jewel26725")
+ */
+export type JewelSocketSlotType = `Jewel${number}`;
+
+/**
+ * Item rarity as written in PoB item text
+ */
+export type ItemRarity = "NORMAL" | "MAGIC" | "RARE" | "UNIQUE" | "RELIC";
+
+/**
+ * Socket colour letter as written in PoB ("A" = abyssal socket)
+ */
+export type SocketColour = "R" | "G" | "B" | "W" | "A";
+
+/**
+ * Sockets of an item (from the "Sockets: R-R-G B" line)
+ */
+export interface ItemSockets {
+  text: string; // Sockets line as written (e.g., "R-R-G B")
+  groups: SocketColour[][]; // Linked socket groups, in order
+  count: number; // Total sockets
+  maxLinks: number; // Largest linked group of gem sockets
+}
+
+/**
+ * Item state flags (besides corruption)
+ */
+export interface ItemFlags {
+  mirrored: boolean;
+  split: boolean;
+  fractured: boolean;
+  synthesised: boolean;
+  unidentified: boolean;
+}
 
 /**
  * Item affix/modifier types
  */
 export type AffixType = "explicit" | "implicit" | "corrupted-implicit";
 
+/**
+ * Eldritch implicit sources
+ */
+export type EldritchInfluence = "Searing Exarch" | "Eater of Worlds";
+
+/**
+ * Modifier origin flags (from PoB's {crafted}/{fractured}/{enchant}/... tags
+ * or the in-game "(crafted)" style suffixes)
+ */
+export interface AffixFlags {
+  crafted: boolean; // Bench-crafted
+  fractured: boolean; // Fractured (cannot be changed)
+  enchant: boolean; // Enchantment (counted with implicits)
+  synthesised: boolean; // Synthesised implicit
+  eldritch: EldritchInfluence | null; // Eldritch implicit
+}
+
+/**
+ * Explicit modifier generation type
+ */
+export type AffixGeneration = "prefix" | "suffix";
+
+/**
+ * Canonical stat granted by a modifier line
+ * IDs are snake_case: flat stats as named ("maximum_life"), "_increased" for
+ * increased/reduced, "_more" for more/less, "added_<type>_damage" for added damage
+ */
+export interface AffixStat {
+  id: string; // e.g. "fire_resistance"
+  values: number[]; // Values in text order (e.g., [12, 24] for "Adds 12 to 24 Fire Damage")
+  value: number; // Single value (average of a min-max pair; negative for reduced/less)
+}
+
+/**
+ * Roll range of a modifier value
+ */
+export interface AffixRange {
+  min: number;
+  max: number;
+}
+
+/**
+ * Mod tier from the local mod database
+ */
+export interface AffixTier {
+  tier: number; // 1 = best tier in the mod table
+  name: string; // Mod name (e.g., "Fecund")
+  itemLevel: number; // Minimum item level for the tier
+  range: AffixRange; // Roll range of the tier
+}
+
 /**
  * Item affix/modifier entity
  */
 export interface Affix {
   type: AffixType;
   text: string; // Modifier text as shown in PoB
-  value: number | null; // Numeric value (if parseable)
-  unparsed: boolean; // True if value couldn't be parsed from text
+  value: number | null; // Main numeric value (first stat's value, else the first number in the text)
+  values: number[]; // All numeric values in text order
+  stats: AffixStat[]; // Canonical stats (empty when the line is not in the translation table)
+  range: AffixRange | null; // Roll range (from a "(min-max)" unique range or the mod tier)
+  rangePosition: number | null; // PoB {range:x} roll position (0-1) of "(min-max)" values
+  tier: AffixTier | null; // Mod tier (explicit single-value mods in the mod database)
+  flags: AffixFlags;
+  generation: AffixGeneration | null; // Prefix/suffix (explicit mods with a known generation type)
+  unparsed: boolean; // True if the line couldn't be translated to stats
+}
+
+/**
+ * Explicit prefix/suffix usage of a magic or rare item
+ */
+export interface AffixSlots {
+  maxPrefixes: number;
+  maxSuffixes: number;
+  prefixes: number; // Known prefixes (including crafted and fractured)
+  suffixes: number; // Known suffixes (including crafted and fractured)
+  unknown: number; // Explicit mods whose generation type is not known
+  openPrefixes: number; // Guaranteed open prefixes (unknown mods are assumed to take a prefix)
+  openSuffixes: number; // Guaranteed open suffixes (unknown mods are assumed to take a suffix)
+  hasCraftedMod: boolean; // A bench craft is already used
 }
 
 /**
@@ -45,8 +163,26 @@ export interface GearSlot {
   itemName: string;
   baseType: string; // Base item type (e.g., "Glorious Plate")
   itemClass: string; // Item class (e.g., "Body Armour")
-  affixes: Affix[];
+  rarity: ItemRarity | null;
+  itemLevel: number | null;
+  quality: number;
+  implicitCount: number; // Number of implicit lines (from "Implicits: N")
+  affixes: Affix[]; // Implicit and explicit modifiers
+  affixSlots: AffixSlots | null; // Prefix/suffix usage (null for normal, unique and relic items)
+  sockets: ItemSockets | null; // Sockets (null when the item text has no "Sockets:" line)
   implicit: string | null; // Implicit modifier (if any)
   corrupted: boolean;
+  flags: ItemFlags;
   influences: string[]; // Influences (e.g., ["Shaper", "Elder"])
+  rawText: string | null; // Item text as stored by PoB (written back while the item is unchanged)
+}
+
+/**
+ * Item set entity (one gear loadout stored in the build, e.g. "Budget" or "Endgame")
+ */
+export interface ItemSet {
+  id: string; // ItemSet id attribute
+  title: string; // ItemSet title (PoB shows "Default" when untitled)
+  active: boolean; // True for the build's activeItemSet
+  gear: GearSlot[];
 }
@@ -0,0 +1,37 @@
+/**
+ * Jewel entity types
+ */
+
+import type { GearSlot } from "./gear.js";
+
+/**
+ * Jewel kinds with distinct tree behaviour
+ */
+export type JewelType = "regular" | "abyss" | "cluster" | "unique" | "timeless";
+
+/**
+ * Cluster jewel sizes
+ */
+export type ClusterJewelSize = "Small" | "Medium" | "Large";
+
+/**
+ * Cluster jewel details (the subgraph it adds to the tree)
+ */
+export interface ClusterJewelInfo {
+  size: ClusterJewelSize;
+  passiveCount: number | null; // Passive skills added ("Adds N Passive Skills")
+  enchant: string | null; // Small passive bonus ("Added Small Passive Skills grant: ...")
+  skill: string | null; // Cluster Jewel Skill ID (e.g., "affliction_lightning_damage")
+  notables: string[]; // Notables added by the jewel ("1 Added Passive Skill is X")
+  jewelSockets: number; // Jewel sockets added by the jewel
+}
+
+/**
+ * Jewel socketed in the passive tree
+ */
+export interface Jewel extends GearSlot {
+  itemId: string; // PoB item ID
+  socketNodeId: string; // Tree node ID of the jewel socket
+  jewelType: JewelType;
+  cluster: ClusterJewelInfo | null; // Set for cluster jewels
+}
@@ -0,0 +1,24 @@
+/**
+ * Build notes entity types
+ */
+
+/**
+ * List found in the notes (numbered or bulleted lines)
+ */
+export interface NoteList {
+  heading: string | null; // Heading the list appears under
+  ordered: boolean; // True for "1." / "1)" lists
+  items: string[];
+}
+
+/**
+ * Parsed <Notes> section
+ */
+export interface BuildNotes {
+  text: string; // Notes with PoB colour codes stripped
+  raw: string; // Notes as stored by PoB, colour codes included
+  headings: string[];
+  links: string[]; // URLs mentioned in the notes
+  lists: NoteList[];
+  priorities: NoteList[]; // Numbered lists and lists under "priority"/"goal" headings
+}
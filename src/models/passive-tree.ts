@@ -2,6 +2,8 @@
  * Passive tree entity types
  */
 
+import type { Jewel } from "./jewel.js";
+
 /**
  * Keystone passive node (build-defining)
  */
@@ -20,6 +22,16 @@ export interface Notable {
   effect: string; // Notable effect description
 }
 
+/**
+ * Selected mastery effect with resolved text
+ */
+export interface MasteryEffect {
+  nodeId: string; // Mastery node ID
+  effectId: string; // Selected mastery effect ID
+  name: string; // Mastery name (e.g., "Life Mastery")
+  effect: string; // Effect description
+}
+
 /**
  * Passive tree entity
  */
@@ -28,5 +40,28 @@ export interface PassiveTree {
   nodes: string[]; // Array of allocated node IDs
   keystones: Keystone[]; // Array of allocated keystones
   notables: Notable[]; // Array of allocated notable passives
+  masteries: MasteryEffect[]; // Selected mastery effects
+  anoints: Notable[]; // Notables allocated by "Allocates X" anoints on the amulet
   version: string; // Passive tree version (e.g., "3.25.0")
 }
+
+/**
+ * Mastery effect chosen on an allocated mastery node
+ */
+export interface MasterySelection {
+  nodeId: string; // Mastery node ID
+  effectId: string; // Selected mastery effect ID
+}
+
+/**
+ * Passive tree spec (one of the trees stored in the build, e.g. "Leveling")
+ */
+export interface PassiveSpec extends PassiveTree {
+  id: string; // 1-based spec index (referenced by the Tree activeSpec attribute)
+  title: string; // Spec title (PoB shows "Default" when untitled)
+  classId: number; // PoB class ID
+  ascendClassId: number; // PoB ascendancy ID (0 = none)
+  masteryEffects: MasterySelection[]; // Raw mastery selections
+  jewels: Jewel[]; // Jewels socketed in this spec's tree sockets
+  active: boolean; // True for the build's activeSpec
+}
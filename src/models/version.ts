@@ -0,0 +1,29 @@
+/**
+ * Version entity types
+ */
+
+/**
+ * Game a build targets
+ */
+export type GameType = "poe1" | "poe2";
+
+/**
+ * Compatibility of a build's versions with this server
+ * - supported: within the known range
+ * - newer: newer than the latest version checked (parsed with a warning)
+ * - unknown: no version information in the build
+ */
+export type VersionStatus = "supported" | "newer" | "unknown";
+
+/**
+ * Version information detected from the build XML
+ */
+export interface VersionInfo {
+  game: GameType;
+  pobVersion: string | null; // Root version attribute (not written by current PoB releases)
+  targetVersion: string | null; // <Build targetVersion> (e.g., "3_0")
+  treeVersion: string | null; // Tree version of the active spec (e.g., "3_25")
+  gameVersion: string | null; // Game version derived from the tree (e.g., "3.25")
+  status: VersionStatus;
+  warnings: string[];
+}
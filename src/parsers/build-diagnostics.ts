@@ -0,0 +1,141 @@
+/**
+ * Build Diagnostics
+ *
+ * Reports missing sections and fallback values that the section parsers apply silently
+ */
+
+import type { ParsedBuild } from "../models/build.js";
+import type { Diagnostic } from "../models/diagnostic.js";
+import type { VersionInfo } from "../models/version.js";
+import { createDiagnostic, hasSectionError } from "../utils/diagnostics.js";
+
+/**
+ * Converts version warnings into diagnostics
+ */
+export function diagnoseVersion(versionInfo: VersionInfo): Diagnostic[] {
+  return versionInfo.warnings.map((warning) =>
+    createDiagnostic("version", "warning", "VERSION_WARNING", warning, "/PathOfBuilding")
+  );
+}
+
+/**
+ * Checks the parsed sections for missing data and defaults
+ * Sections that already failed to parse are skipped (their error explains the gap);
+ * the character parser reports its own defaults
+ * @param pobXML - Root <PathOfBuilding> object
+ * @param build - Parsed build
+ * @param diagnostics - Diagnostics recorded while parsing
+ * @returns New diagnostics
+ */
+export function diagnoseBuild(
+  pobXML: any,
+  build: Omit<ParsedBuild, "diagnostics">,
+  diagnostics: Diagnostic[]
+): Diagnostic[] {
+  const found: Diagnostic[] = [];
+
+  if (!hasSectionError(diagnostics, "skills")) {
+    if (pobXML.Skills === undefined) {
+      found.push(
+        createDiagnostic(
+          "skills",
+          "warning",
+          "SECTION_MISSING",
+          "Skills section is missing; the build has no skills",
+          "/PathOfBuilding/Skills"
+        )
+      );
+    } else if (build.skillSets.every((set) => set.skills.length === 0)) {
+      found.push(
+        createDiagnostic(
+          "skills",
+          "warning",
+          "SECTION_EMPTY",
+          "Skills section has no skill groups",
+          "/PathOfBuilding/Skills"
+        )
+      );
+    }
+  }
+
+  if (!hasSectionError(diagnostics, "tree")) {
+    if (pobXML.Tree === undefined) {
+      found.push(
+        createDiagnostic(
+          "tree",
+          "warning",
+          "SECTION_MISSING",
+          "Tree section is missing; no passives are allocated",
+          "/PathOfBuilding/Tree"
+        )
+      );
+    } else if (build.passiveSpecs.length === 0) {
+      found.push(
+        createDiagnostic(
+          "tree",
+          "warning",
+          "SECTION_EMPTY",
+          "Tree section has no passive tree specs",
+          "/PathOfBuilding/Tree"
+        )
+      );
+    }
+  }
+
+  if (!hasSectionError(diagnostics, "items")) {
+    if (pobXML.Items === undefined && pobXML.Gear === undefined) {
+      found.push(
+        createDiagnostic(
+          "items",
+          "warning",
+          "SECTION_MISSING",
+          "Items section is missing; all gear slots are empty",
+          "/PathOfBuilding/Items"
+        )
+      );
+    } else if (build.gear.every((slot) => slot.itemName === "Empty")) {
+      found.push(
+        createDiagnostic(
+          "items",
+          "warning",
+          "SECTION_EMPTY",
+          "No items are equipped in the active item set",
+          "/PathOfBuilding/Items"
+        )
+      );
+    }
+  }
+
+  if (!hasSectionError(diagnostics, "stats") && !hasPlayerStats(pobXML)) {
+    found.push(
+      createDiagnostic(
+        "stats",
+        "warning",
+        "SECTION_MISSING",
+        "Build has no calculated stats; stats default to zero and analysis estimates them from gear",
+        "/PathOfBuilding/Build/PlayerStat"
+      )
+    );
+  }
+
+  if (!hasSectionError(diagnostics, "config") && pobXML.Config === undefined) {
+    found.push(
+      createDiagnostic(
+        "config",
+        "info",
+        "SECTION_MISSING",
+        "Config section is missing; PoB's default configuration is assumed",
+        "/PathOfBuilding/Config"
+      )
+    );
+  }
+
+  return found;
+}
+
+/**
+ * Checks whether the build stores calculated stats (<PlayerStat> or the legacy <Stats> section)
+ */
+function hasPlayerStats(pobXML: any): boolean {
+  return Boolean(pobXML.Build?.PlayerStat) || Boolean(pobXML.Stats);
+}
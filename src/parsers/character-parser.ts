@@ -1,43 +1,287 @@
 /**
  * Character Parser
  *
- * Extracts character information from the <Build> section
+ * Extracts character information from the <Build> section, validated against the class registry
  */
 
-import type { Character } from "../models/build.js";
+import type { Bandit, Character } from "../models/build.js";
+import type { Diagnostic } from "../models/diagnostic.js";
+import type { GameType } from "../models/version.js";
+import {
+  CHARACTER_CLASSES,
+  DEFAULT_CLASS,
+  findAscendancy,
+  findAscendancyById,
+  findClass,
+  findClassById,
+} from "../data/character-classes.js";
+import { VERSION_COMPATIBILITY } from "../data/version-compatibility.js";
+import { BANDIT_REWARDS, findPantheonGod } from "../data/character-choices.js";
+import { createDiagnostic } from "../utils/diagnostics.js";
+import { getActiveSpecElement } from "./passive-parser.js";
+
+const CLASS_NAME_PATH = "/PathOfBuilding/Build/@className";
+const ASCEND_CLASS_NAME_PATH = "/PathOfBuilding/Build/@ascendClassName";
+const CLASS_ID_PATH = "/PathOfBuilding/Tree/Spec/@classId";
+const ASCEND_CLASS_ID_PATH = "/PathOfBuilding/Tree/Spec/@ascendClassId";
 
 /**
  * Parses character data from PoB Build section
+ * Class and ascendancy come from the names in <Build>, falling back to the
+ * active tree spec's classId/ascendClassId
  * @param buildSection - PoB <Build> XML section
+ * @param treeSection - PoB <Tree> XML section (numeric class IDs)
+ * @param itemsSection - PoB <Items> XML section (active weapon set)
+ * @param game - Game the build targets
+ * @param diagnostics - Receives unknown, inconsistent and defaulted values
  * @returns Character entity
  */
-export function parseCharacter(buildSection: any): Character {
-  if (!buildSection) {
-    // Return default character if Build section missing
-    return {
-      class: "Witch",
-      ascendancy: null,
-      level: 1,
-      league: null,
-    };
+export function parseCharacter(
+  buildSection: any,
+  treeSection?: any,
+  itemsSection?: any,
+  game: GameType = "poe1",
+  diagnostics: Diagnostic[] = []
+): Character {
+  const label = VERSION_COMPATIBILITY[game].label;
+  const spec = getActiveSpecElement(treeSection);
+  const classId = readId(spec?.classId);
+  const ascendClassId = readId(spec?.ascendClassId);
+  const treeVersion = spec?.treeVersion ?? treeSection?.version ?? null;
+
+  if (buildSection === undefined) {
+    diagnostics.push(
+      createDiagnostic(
+        "character",
+        "warning",
+        "SECTION_MISSING",
+        "Build section is missing; character level defaults to 1",
+        "/PathOfBuilding/Build"
+      )
+    );
+  }
+
+  // PoB writes className/ascendClassName; older exports used class/ascendancy
+  const className =
+    buildSection?.className || buildSection?.MainSocket?.class || buildSection?.class || null;
+  const ascendClassName = readAscendancyName(buildSection);
+
+  const namedClass = findClass(className, game);
+  if (className && !namedClass) {
+    diagnostics.push(
+      createDiagnostic(
+        "character",
+        "warning",
+        "INVALID_VALUE",
+        `"${className}" is not a ${label} class`,
+        CLASS_NAME_PATH
+      )
+    );
   }
 
-  // Extract class
-  const characterClass = buildSection.MainSocket?.class || buildSection.class || "Witch";
+  const namedAscendancy = findAscendancy(ascendClassName, game);
+  if (ascendClassName && !namedAscendancy) {
+    diagnostics.push(
+      createDiagnostic(
+        "character",
+        "warning",
+        "INVALID_VALUE",
+        `"${ascendClassName}" is not a ${label} ascendancy`,
+        ASCEND_CLASS_NAME_PATH
+      )
+    );
+  }
 
-  // Extract ascendancy
-  const ascendancy = buildSection.MainSocket?.ascendancyName || buildSection.ascendancy || null;
+  // Class: name, then tree classId, then the class of the named ascendancy
+  const idClass = findClassById(classId, game);
+  let characterClass = namedClass || idClass || namedAscendancy?.characterClass || null;
+
+  if (!characterClass) {
+    characterClass = findClass(DEFAULT_CLASS, game)!;
+    diagnostics.push(
+      createDiagnostic(
+        "character",
+        "warning",
+        "DEFAULT_VALUE",
+        classId !== null && !hasKnownIds(game)
+          ? `Character class is not recorded and ${label} classIds are not mapped (tree classId ${classId}); defaulting to ${characterClass.name}`
+          : `Character class is not recorded; defaulting to ${characterClass.name}`,
+        classId !== null ? CLASS_ID_PATH : CLASS_NAME_PATH
+      )
+    );
+  } else if (namedClass && idClass && namedClass !== idClass) {
+    diagnostics.push(
+      createDiagnostic(
+        "character",
+        "warning",
+        "INVALID_VALUE",
+        `Class ${namedClass.name} does not match tree classId ${classId} (${idClass.name}); using ${namedClass.name}`,
+        CLASS_ID_PATH
+      )
+    );
+  }
+
+  // Ascendancy: name, then tree ascendClassId (only meaningful for the spec's own class)
+  // An explicit "None" means not ascended, whatever the spec says
+  const notAscended = String(buildSection?.ascendClassName ?? "") === "None";
+  const idAscendancy =
+    idClass === characterClass && !notAscended
+      ? findAscendancyById(characterClass, ascendClassId, treeVersion)
+      : null;
+  let ascendancy = namedAscendancy?.ascendancy || idAscendancy;
+
+  if (!ascendancy && !notAscended && ascendClassId && !hasKnownIds(game)) {
+    diagnostics.push(
+      createDiagnostic(
+        "character",
+        "info",
+        "INVALID_VALUE",
+        `Ascendancy is not recorded and ${label} ascendClassIds are not mapped (tree ascendClassId ${ascendClassId}); leaving it empty`,
+        ASCEND_CLASS_ID_PATH
+      )
+    );
+  }
+
+  if (namedAscendancy && namedAscendancy.characterClass !== characterClass) {
+    diagnostics.push(
+      createDiagnostic(
+        "character",
+        "warning",
+        "INVALID_VALUE",
+        `${namedAscendancy.ascendancy.name} is a ${namedAscendancy.characterClass.name} ascendancy, not ${characterClass.name}; ignoring it`,
+        ASCEND_CLASS_NAME_PATH
+      )
+    );
+    ascendancy = idAscendancy;
+  } else if (namedAscendancy && idAscendancy && namedAscendancy.ascendancy !== idAscendancy) {
+    diagnostics.push(
+      createDiagnostic(
+        "character",
+        "warning",
+        "INVALID_VALUE",
+        `Ascendancy ${namedAscendancy.ascendancy.name} does not match tree ascendClassId ${ascendClassId} (${idAscendancy.name}); using ${namedAscendancy.ascendancy.name}`,
+        ASCEND_CLASS_ID_PATH
+      )
+    );
+  }
 
   // Extract level
-  const level = parseInt(buildSection.level || buildSection.MainSocket?.level || "1", 10);
+  const rawLevel = buildSection?.level || buildSection?.MainSocket?.level;
+  if (buildSection !== undefined && !rawLevel) {
+    diagnostics.push(
+      createDiagnostic(
+        "character",
+        "warning",
+        "DEFAULT_VALUE",
+        "Character level is not recorded; defaulting to 1",
+        "/PathOfBuilding/Build/@level"
+      )
+    );
+  }
+  const level = parseInt(rawLevel || "1", 10) || 1;
 
   // Extract league
-  const league = buildSection.league || null;
+  const league = buildSection?.league || null;
+
+  // Bandits and the pantheon only exist in PoE 1
+  const bandit = game === "poe1" ? readBandit(buildSection?.bandit, diagnostics) : null;
+  const pantheonMajorGod =
+    game === "poe1" ? readPantheonGod(buildSection?.pantheonMajorGod, true, diagnostics) : null;
+  const pantheonMinorGod =
+    game === "poe1" ? readPantheonGod(buildSection?.pantheonMinorGod, false, diagnostics) : null;
+
+  const mainSocketGroup = readId(buildSection?.mainSocketGroup);
 
   return {
-    class: characterClass,
-    ascendancy,
+    class: characterClass.name,
+    ascendancy: ascendancy ? ascendancy.name : null,
+    classId: characterClass.id ?? classId,
+    ascendClassId: ascendancy ? (ascendancy.id ?? ascendClassId) : 0,
     level: Math.min(100, Math.max(1, level)), // Clamp to valid range
     league,
+    bandit,
+    pantheonMajorGod,
+    pantheonMinorGod,
+    mainSocketGroup: mainSocketGroup && mainSocketGroup > 0 ? mainSocketGroup : null,
+    viewMode: buildSection?.viewMode ? String(buildSection.viewMode) : null,
+    activeWeaponSet: String(itemsSection?.useSecondWeaponSet) === "true" ? 2 : 1,
   };
 }
+
+/**
+ * Checks whether the registry maps PoB's numeric class IDs for a game (not yet for PoE 2)
+ */
+function hasKnownIds(game: GameType): boolean {
+  return CHARACTER_CLASSES.some((entry) => entry.game === game && entry.id !== null);
+}
+
+/**
+ * Reads the bandit choice (PoB writes "None" when all bandits were killed)
+ */
+function readBandit(value: any, diagnostics: Diagnostic[]): Bandit | null {
+  if (value === undefined || value === null || value === "") {
+    return null;
+  }
+
+  const entry = BANDIT_REWARDS.find(
+    (reward) => reward.bandit.toLowerCase() === String(value).trim().toLowerCase()
+  );
+  if (!entry) {
+    diagnostics.push(
+      createDiagnostic(
+        "character",
+        "warning",
+        "INVALID_VALUE",
+        `"${value}" is not a bandit choice`,
+        "/PathOfBuilding/Build/@bandit"
+      )
+    );
+    return null;
+  }
+  return entry.bandit;
+}
+
+/**
+ * Reads a pantheon choice as its PoB value (null for "None")
+ */
+function readPantheonGod(value: any, major: boolean, diagnostics: Diagnostic[]): string | null {
+  const attribute = major ? "pantheonMajorGod" : "pantheonMinorGod";
+  if (value === undefined || value === null || value === "" || String(value) === "None") {
+    return null;
+  }
+
+  const god = findPantheonGod(String(value));
+  if (!god || god.major !== major) {
+    diagnostics.push(
+      createDiagnostic(
+        "character",
+        "warning",
+        "INVALID_VALUE",
+        `"${value}" is not a ${major ? "major" : "minor"} pantheon god`,
+        `/PathOfBuilding/Build/@${attribute}`
+      )
+    );
+    return null;
+  }
+  return god.id;
+}
+
+/**
+ * Reads the ascendancy name ("None" when the character has not ascended)
+ */
+function readAscendancyName(buildSection: any): string | null {
+  const name =
+    buildSection?.ascendClassName ||
+    buildSection?.MainSocket?.ascendancyName ||
+    buildSection?.ascendancy ||
+    null;
+  return name && String(name) !== "None" ? String(name) : null;
+}
+
+/**
+ * Reads a numeric class ID attribute
+ */
+function readId(value: any): number | null {
+  const id = parseInt(String(value ?? ""), 10);
+  return isNaN(id) ? null : id;
+}
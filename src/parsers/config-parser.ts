@@ -0,0 +1,183 @@
+/**
+ * Config Parser
+ *
+ * Extracts the assumed enemy, charges, buffs and conditions from the <Config> section
+ */
+
+import type {
+  BuildConfig,
+  ChargeConfig,
+  ConfigInputValue,
+  EnemyBossType,
+} from "../models/config.js";
+
+/**
+ * Parses PoB Config section
+ * @param configSection - PoB <Config> XML section
+ * @returns BuildConfig entity (defaults when the section is missing)
+ */
+export function parseConfig(configSection: any): BuildConfig {
+  const { setId, title, inputElements } = getActiveInputs(configSection);
+  const inputs = readInputs(inputElements);
+
+  return {
+    setId,
+    title,
+    enemy: {
+      level: readNumber(inputs.enemyLevel),
+      bossType: parseBossType(inputs.enemyIsBoss),
+      fireResist: readNumber(inputs.enemyFireResist),
+      coldResist: readNumber(inputs.enemyColdResist),
+      lightningResist: readNumber(inputs.enemyLightningResist),
+      chaosResist: readNumber(inputs.enemyChaosResist),
+      armour: readNumber(inputs.enemyArmour),
+      evasion: readNumber(inputs.enemyEvasion),
+      conditions: enabledInputs(inputs, "conditionEnemy").map((name) =>
+        name.slice("conditionEnemy".length)
+      ),
+    },
+    charges: {
+      power: parseCharge(inputs, "Power"),
+      frenzy: parseCharge(inputs, "Frenzy"),
+      endurance: parseCharge(inputs, "Endurance"),
+    },
+    usingFlasks: inputs.conditionUsingFlask === true,
+    buffs: enabledInputs(inputs, "buff"),
+    conditions: enabledInputs(inputs, "condition").filter(
+      (name) => !name.startsWith("conditionEnemy") && name !== "conditionUsingFlask"
+    ),
+    customModifiers: String(inputs.customMods ?? "")
+      .split(/\r?\n/)
+      .map((line) => line.trim())
+      .filter((line) => line.length > 0),
+    inputs,
+  };
+}
+
+/**
+ * Finds the <Input> elements of the active config set
+ * (older builds place <Input> elements directly under <Config>)
+ */
+function getActiveInputs(configSection: any): {
+  setId: string | null;
+  title: string | null;
+  inputElements: any[];
+} {
+  if (!configSection) {
+    return { setId: null, title: null, inputElements: [] };
+  }
+
+  if (!configSection.ConfigSet) {
+    return { setId: null, title: null, inputElements: toArray(configSection.Input) };
+  }
+
+  const configSets = toArray(configSection.ConfigSet);
+  const activeSet =
+    configSets.find((set: any) => String(set.id) === String(configSection.activeConfigSet)) ||
+    configSets[0];
+
+  return {
+    setId: activeSet?.id !== undefined ? String(activeSet.id) : null,
+    title: activeSet?.title ? String(activeSet.title) : null,
+    inputElements: toArray(activeSet?.Input),
+  };
+}
+
+/**
+ * Reads <Input name string|boolean|number> elements into a name -> value map
+ */
+function readInputs(inputElements: any[]): Record<string, ConfigInputValue> {
+  const inputs: Record<string, ConfigInputValue> = {};
+
+  for (const input of inputElements) {
+    if (!input || !input.name) {
+      continue;
+    }
+
+    const name = String(input.name);
+    if (input.boolean !== undefined) {
+      inputs[name] = input.boolean === true || String(input.boolean).toLowerCase() === "true";
+    } else if (input.number !== undefined) {
+      const value = typeof input.number === "number" ? input.number : parseFloat(input.number);
+      if (!isNaN(value)) {
+        inputs[name] = value;
+      }
+    } else if (input.string !== undefined) {
+      inputs[name] = decodeCharacterReferences(String(input.string));
+    }
+  }
+
+  return inputs;
+}
+
+/**
+ * Decodes numeric character references, which the XML parser leaves as-is
+ * (PoB writes the line breaks of customMods as "&#10;")
+ */
+function decodeCharacterReferences(value: string): string {
+  return value.replace(/&#(x[0-9a-f]+|\d+);/gi, (match, code: string) => {
+    const codePoint =
+      code[0].toLowerCase() === "x" ? parseInt(code.slice(1), 16) : parseInt(code, 10);
+    return codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : match;
+  });
+}
+
+/**
+ * Normalizes "enemyIsBoss" (older builds use true/"Shaper"/"Sirus")
+ */
+function parseBossType(value: ConfigInputValue | undefined): EnemyBossType {
+  switch (String(value ?? "").toLowerCase()) {
+    case "true":
+    case "boss":
+      return "Boss";
+    case "pinnacle":
+    case "shaper":
+    case "sirus":
+      return "Pinnacle";
+    case "uber":
+      return "Uber";
+    default:
+      return "None";
+  }
+}
+
+/**
+ * Reads a charge toggle and its optional count override
+ */
+function parseCharge(inputs: Record<string, ConfigInputValue>, type: string): ChargeConfig {
+  return {
+    enabled: inputs[`use${type}Charges`] === true,
+    count: readNumber(inputs[`override${type}Charges`]),
+  };
+}
+
+/**
+ * Lists enabled boolean inputs whose names start with a prefix
+ */
+function enabledInputs(inputs: Record<string, ConfigInputValue>, prefix: string): string[] {
+  return Object.keys(inputs).filter((name) => name.startsWith(prefix) && inputs[name] === true);
+}
+
+/**
+ * Reads a numeric input value
+ */
+function readNumber(value: ConfigInputValue | undefined): number | null {
+  if (typeof value === "number") {
+    return value;
+  }
+  if (typeof value === "string") {
+    const parsed = parseFloat(value);
+    return isNaN(parsed) ? null : parsed;
+  }
+  return null;
+}
+
+/**
+ * Normalizes a single XML element or array of elements to an array
+ */
+function toArray(value: any): any[] {
+  if (!value) {
+    return [];
+  }
+  return (Array.isArray(value) ? value : [value]).filter((entry: any) => entry);
+}
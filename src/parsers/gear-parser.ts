@@ -1,10 +1,22 @@
 /**
  * Gear Parser
  *
- * Extracts equipped items from the <Gear> section
+ * Extracts equipped items from the <Items> section
  */
 
-import type { GearSlot, Affix, GearSlotType } from "../models/gear.js";
+import type {
+  GearSlot,
+  Affix,
+  AffixFlags,
+  AffixSlots,
+  AffixType,
+  GearSlotType,
+  ItemRarity,
+  ItemSet,
+} from "../models/gear.js";
+import { parseItemText, type ParsedModLine } from "./item-text-parser.js";
+import { findModTier, translateMod } from "./mod-translator.js";
+import { parseSockets } from "./socket-parser.js";
 
 /**
  * All gear slot types in order
@@ -28,26 +40,122 @@ const GEAR_SLOTS: GearSlotType[] = [
 ];
 
 /**
- * Parses gear data from PoB Gear section
- * @param gearSection - PoB <Gear> section
- * @returns Array of GearSlot entities
+ * Fixed (non-socket) slot types recognised in PoB slot names
+ */
+const FIXED_SLOTS = new Set<string>([
+  ...GEAR_SLOTS,
+  "Weapon1Swap",
+  "Weapon2Swap",
+  "Ring3",
+]);
+
+/**
+ * Item class implied by each slot, used when the item text omits it
+ */
+const SLOT_ITEM_CLASSES: Record<string, string> = {
+  Helmet: "Helmet",
+  BodyArmour: "Body Armour",
+  Gloves: "Gloves",
+  Boots: "Boots",
+  Amulet: "Amulet",
+  Ring1: "Ring",
+  Ring2: "Ring",
+  Ring3: "Ring",
+  Belt: "Belt",
+};
+
+/**
+ * Parses gear data from PoB Items section
+ * @param gearSection - PoB <Items> section
+ * @returns Array of GearSlot entities for the active item set
  */
 export function parseGear(gearSection: any): GearSlot[] {
-  if (!gearSection || !gearSection.Item) {
+  const itemSets = parseItemSets(gearSection);
+  const activeSet = itemSets.find((set) => set.active) || itemSets[0];
+
+  if (!activeSet) {
     // Return empty slots if no gear
     return GEAR_SLOTS.map((slot) => createEmptySlot(slot));
   }
 
+  return activeSet.gear;
+}
+
+/**
+ * Parses every item set from PoB Items section
+ * @param gearSection - PoB <Items> section
+ * @returns Array of ItemSet entities (empty if the build has no items)
+ */
+export function parseItemSets(gearSection: any): ItemSet[] {
+  if (!gearSection || !gearSection.Item) {
+    return [];
+  }
+
   const items = Array.isArray(gearSection.Item)
     ? gearSection.Item
     : [gearSection.Item];
 
+  // Index items by their id attribute
+  const itemsById = new Map<string, any>();
+  items.forEach((item: any) => {
+    if (item && item.id !== undefined) {
+      itemsById.set(String(item.id), item);
+    }
+  });
+
+  // Older builds place <Slot> elements directly under <Items>
+  if (!gearSection.ItemSet) {
+    return [
+      {
+        id: "1",
+        title: "Default",
+        active: true,
+        gear: resolveSetGear(gearSection.Slot, itemsById),
+      },
+    ];
+  }
+
+  const itemSets = Array.isArray(gearSection.ItemSet)
+    ? gearSection.ItemSet
+    : [gearSection.ItemSet];
+
+  const activeId =
+    gearSection.activeItemSet !== undefined
+      ? String(gearSection.activeItemSet)
+      : String(itemSets[0]?.id ?? "1");
+
+  return itemSets.map((set: any, index: number) => {
+    const id = set.id !== undefined ? String(set.id) : String(index + 1);
+    return {
+      id,
+      title: set.title ? String(set.title) : "Default",
+      active: id === activeId,
+      gear: resolveSetGear(set.Slot, itemsById),
+    };
+  });
+}
+
+/**
+ * Resolves the <Slot name itemId> entries of one item set into gear slots
+ */
+function resolveSetGear(slots: any, itemsById: Map<string, any>): GearSlot[] {
+  const mappings = !slots ? [] : Array.isArray(slots) ? slots : [slots];
   const gear: GearSlot[] = [];
 
-  // Map items to their slots
-  items.forEach((item: any) => {
-    const slot = parseGearSlot(item);
-    if (slot) {
+  // Map items to their slots (itemId 0 marks an empty slot)
+  mappings.forEach((mapping: any) => {
+    if (!mapping || !mapping.name || !mapping.itemId || String(mapping.itemId) === "0") {
+      return;
+    }
+
+    const slotType = normalizeSlotName(mapping.name);
+    const item = itemsById.get(String(mapping.itemId));
+    if (!slotType || !item) {
+      return;
+    }
+
+    const slot = parseGearSlot(item, slotType);
+    if (slot && !gear.some((g) => g.slot === slotType)) {
       gear.push(slot);
     }
   });
@@ -58,137 +166,171 @@ export function parseGear(gearSection: any): GearSlot[] {
     return existing || createEmptySlot(slotType);
   });
 
-  return filledSlots;
+  // Keep swap weapons and socketed jewels after the main slots
+  const extraSlots = gear.filter((g) => !GEAR_SLOTS.includes(g.slot));
+
+  return [...filledSlots, ...extraSlots];
 }
 
 /**
- * Parses a single gear item
+ * Converts a PoB slot name to a GearSlotType
+ * ("Body Armour" -> "BodyArmour", "Weapon 1Swap Abyssal Socket 1" -> "Weapon1SwapAbyssalSocket1")
  */
-function parseGearSlot(item: any): GearSlot | null {
-  if (!item || !item.$) {
-    return null;
+export function normalizeSlotName(name: unknown): GearSlotType | null {
+  const slotType = String(name ?? "").replace(/\s+/g, "");
+
+  if (FIXED_SLOTS.has(slotType)) {
+    return slotType as GearSlotType;
   }
 
-  const itemName = item.$;
+  if (/^[A-Za-z0-9]+AbyssalSocket\d+$/.test(slotType)) {
+    return slotType as GearSlotType;
+  }
 
-  // Determine slot type from item data
-  const slotType = determineSlotType(item);
-  if (!slotType) {
-    return null;
+  if (/^Jewel\d+$/.test(slotType)) {
+    return slotType as GearSlotType;
   }
 
-  return {
-    slot: slotType,
-    itemName,
-    baseType: item.baseType || "",
-    itemClass: item.itemClass || "",
-    affixes: parseAffixes(item),
-    implicit: item.implicit || null,
-    corrupted: item.corrupted === true || item.corrupted === "true",
-    influences: parseInfluences(item),
-  };
+  return null;
 }
 
 /**
- * Determines the gear slot type from item data
+ * Parses a single gear item from its raw PoB item text
+ * @param item - PoB <Item> element (or its raw text)
+ * @param slotType - Slot the item is equipped in
+ * @returns GearSlot entity, or null if the item has no text
  */
-function determineSlotType(item: any): GearSlotType | null {
-  // Try to get slot from item data
-  if (item.slot) {
-    return item.slot;
-  }
-
-  // Try to infer from item name/rarity/type
-  if (!item.$) {
+export function parseGearSlot(item: any, slotType: GearSlotType): GearSlot | null {
+  const itemText = typeof item === "string" ? item : item?.$;
+  if (!itemText) {
     return null;
   }
 
-  const itemName = item.$.toLowerCase();
+  const parsed = parseItemText(String(itemText));
+  const itemClass = parsed.itemClass || inferItemClassFromSlot(slotType);
+  const affixes = [
+    ...parsed.implicits.map((mod) => createAffix("implicit", mod)),
+    ...parsed.explicits.map((mod) => createAffix("explicit", mod)),
+  ];
 
-  // Simple heuristic mapping
-  if (itemName.includes("flask")) {
-    return "Flask1"; // Will be renumbered if multiple
-  }
-
-  // Default: return null (will be filled as empty slot)
-  return null;
+  return {
+    slot: slotType,
+    itemName: parsed.name,
+    baseType: parsed.baseType,
+    itemClass,
+    rarity: parsed.rarity,
+    itemLevel: parsed.itemLevel,
+    quality: parsed.quality,
+    implicitCount: parsed.implicits.length,
+    affixes,
+    affixSlots: countAffixSlots(parsed.rarity, itemClass, affixes),
+    sockets: parseSockets(parsed.properties["Sockets"]),
+    implicit:
+      parsed.implicits.length > 0 ? parsed.implicits.map((mod) => mod.text).join("\n") : null,
+    corrupted: parsed.corrupted,
+    flags: parsed.flags,
+    influences: parsed.influences,
+    // Indentation from the XML layout is dropped; PoB trims every line on import
+    rawText: String(itemText)
+      .split(/\r?\n/)
+      .map((line) => line.trim())
+      .filter((line) => line.length > 0)
+      .join("\n"),
+  };
 }
 
 /**
- * Parses affixes/modifiers from an item
+ * Infers the item class from the slot an item is equipped in
  */
-function parseAffixes(item: any): Affix[] {
-  const affixes: Affix[] = [];
-
-  if (!item.mods || !item.mods.mod) {
-    return affixes;
+function inferItemClassFromSlot(slotType: GearSlotType): string {
+  if (slotType.startsWith("Flask")) {
+    return "Flask";
   }
-
-  const mods = Array.isArray(item.mods.mod)
-    ? item.mods.mod
-    : [item.mods.mod];
-
-  mods.forEach((mod: any) => {
-    affixes.push({
-      type: determineAffixType(mod),
-      text: mod.str || mod.$ || "",
-      value: parseAffixValue(mod.str || mod.$ || ""),
-      unparsed: mod.value === undefined,
-    });
-  });
-
-  return affixes;
+  if (slotType.includes("AbyssalSocket")) {
+    return "Abyss Jewel";
+  }
+  if (slotType.startsWith("Jewel")) {
+    return "Jewel";
+  }
+  return SLOT_ITEM_CLASSES[slotType] || "";
 }
 
 /**
- * Determines affix type (explicit, implicit, corrupted-implicit)
+ * Creates an affix entity from a modifier line
  */
-function determineAffixType(mod: any): "explicit" | "implicit" | "corrupted-implicit" {
-  if (mod.type === "implicit") {
-    return "implicit";
-  }
+function createAffix(type: AffixType, mod: ParsedModLine): Affix {
+  const translated = translateMod(mod.text, mod.range);
+  const value = translated.stats.length > 0 ? translated.stats[0].value : translated.values[0] ?? null;
+  const flags = readAffixFlags(mod.tags);
 
-  if (mod.corrupted === true || mod.corrupted === "true") {
-    return "corrupted-implicit";
-  }
+  // Tiers only apply to rolled explicit mods; "(min-max)" ranges are unique rolls and
+  // bench crafts have their own values, not the natural tiers
+  const tier =
+    type === "explicit" && translated.values.length === 1 && !translated.range && !flags.crafted
+      ? findModTier(translated.template, value)
+      : null;
 
-  return "explicit";
+  return {
+    type,
+    text: mod.text,
+    value,
+    values: translated.values,
+    stats: translated.stats,
+    range: translated.range || tier?.range || null,
+    rangePosition: mod.range,
+    tier,
+    flags,
+    generation: type === "explicit" ? translated.generation : null,
+    unparsed: translated.stats.length === 0,
+  };
 }
 
 /**
- * Attempts to parse numeric value from affix text
+ * Reads origin flags from PoB mod tags
  */
-function parseAffixValue(text: string): number | null {
-  // Try to extract numeric value from text like "+89 to maximum Life"
-  const match = text.match(/([-\d]+)/);
-  if (match) {
-    return parseInt(match[1], 10);
-  }
-  return null;
+function readAffixFlags(tags: string[]): AffixFlags {
+  return {
+    crafted: tags.includes("crafted"),
+    fractured: tags.includes("fractured"),
+    enchant: tags.includes("enchant"),
+    synthesised: tags.includes("synthesis") || tags.includes("synthesised"),
+    eldritch: tags.includes("exarch")
+      ? "Searing Exarch"
+      : tags.includes("eater")
+        ? "Eater of Worlds"
+        : null,
+  };
 }
 
 /**
- * Parses item influences (Shaper, Elder, etc.)
+ * Counts used and open prefixes/suffixes of a magic or rare item
+ * Jewels roll 2 of each on rares, other items 3; magic items roll 1 of each
  */
-function parseInfluences(item: any): string[] {
-  const influences: string[] = [];
-
-  if (item.influences) {
-    // Handle various influence formats
-    if (typeof item.influences === "string") {
-      influences.push(item.influences);
-    } else if (Array.isArray(item.influences)) {
-      influences.push(...item.influences);
-    } else if (typeof item.influences === "object") {
-      Object.keys(item.influences).forEach((key) => {
-        if (item.influences[key] === true || item.influences[key] === "true") {
-          influences.push(key);
-        }
-      });
-    }
+function countAffixSlots(
+  rarity: ItemRarity | null,
+  itemClass: string,
+  affixes: Affix[]
+): AffixSlots | null {
+  if (rarity !== "MAGIC" && rarity !== "RARE") {
+    return null;
   }
 
-  return influences;
+  const maxAffixes = rarity === "MAGIC" ? 1 : itemClass.includes("Jewel") ? 2 : 3;
+  const explicits = affixes.filter((affix) => affix.type === "explicit");
+  const prefixes = explicits.filter((affix) => affix.generation === "prefix").length;
+  const suffixes = explicits.filter((affix) => affix.generation === "suffix").length;
+  const unknown = explicits.length - prefixes - suffixes;
+
+  return {
+    maxPrefixes: maxAffixes,
+    maxSuffixes: maxAffixes,
+    prefixes,
+    suffixes,
+    unknown,
+    openPrefixes: Math.max(0, maxAffixes - prefixes - unknown),
+    openSuffixes: Math.max(0, maxAffixes - suffixes - unknown),
+    hasCraftedMod: explicits.some((affix) => affix.flags.crafted),
+  };
 }
 
 /**
@@ -200,9 +342,23 @@ function createEmptySlot(slot: GearSlotType): GearSlot {
     itemName: "Empty",
     baseType: "",
     itemClass: "",
+    rarity: null,
+    itemLevel: null,
+    quality: 0,
+    implicitCount: 0,
     affixes: [],
+    affixSlots: null,
+    sockets: null,
     implicit: null,
     corrupted: false,
+    flags: {
+      mirrored: false,
+      split: false,
+      fractured: false,
+      synthesised: false,
+      unidentified: false,
+    },
     influences: [],
+    rawText: null,
   };
 }
@@ -0,0 +1,339 @@
+/**
+ * Item Text Parser
+ *
+ * Parses the raw multi-line item text PoB stores inside each <Item> element
+ */
+
+import type { ItemFlags, ItemRarity } from "../models/gear.js";
+
+/**
+ * Modifier line with its PoB tags
+ */
+export interface ParsedModLine {
+  text: string; // Modifier text without tags
+  tags: string[]; // Tag names, lowercased ("crafted", "fractured", "enchant", "exarch", ...)
+  range: number | null; // PoB {range:x} roll position (0-1) for "(min-max)" values
+}
+
+/**
+ * Structured result of parsing a PoB item text block
+ */
+export interface ParsedItemText {
+  rarity: ItemRarity | null;
+  name: string;
+  baseType: string;
+  itemClass: string;
+  itemLevel: number | null;
+  quality: number;
+  implicits: ParsedModLine[]; // Implicit lines (includes enchants, as PoB counts them)
+  explicits: ParsedModLine[]; // Explicit modifier lines
+  corrupted: boolean;
+  flags: ItemFlags;
+  influences: string[];
+  properties: Record<string, string>; // Remaining "Key: value" header lines
+}
+
+/**
+ * Header keys PoB writes as "Key: value" lines
+ * Mod lines can also contain a colon, so only these are treated as properties
+ */
+const PROPERTY_KEYS = new Set([
+  "Item Class",
+  "Unique ID",
+  "Item Level",
+  "Quality",
+  "Sockets",
+  "LevelReq",
+  "Requires Level",
+  "Implicits",
+  "Radius",
+  "Limited to",
+  "Variant",
+  "Selected Variant",
+  "Has Alt Variant",
+  "Has Alt Variant Two",
+  "Selected Alt Variant",
+  "Selected Alt Variant Two",
+  "League",
+  "Source",
+  "Upgrade",
+  "Armour",
+  "Evasion",
+  "Evasion Rating",
+  "Energy Shield",
+  "Ward",
+  "Cluster Jewel Skill",
+  "Cluster Jewel Node Count",
+  "Catalyst",
+  "CatalystQuality",
+  "Talisman Tier",
+  "Prefix",
+  "Suffix",
+  "Crafted",
+]);
+
+/**
+ * Influence marker lines ("Shaper Item", "Searing Exarch Item", ...)
+ */
+const INFLUENCE_LINES: Record<string, string> = {
+  "Shaper Item": "Shaper",
+  "Elder Item": "Elder",
+  "Crusader Item": "Crusader",
+  "Redeemer Item": "Redeemer",
+  "Hunter Item": "Hunter",
+  "Warlord Item": "Warlord",
+  "Searing Exarch Item": "Searing Exarch",
+  "Eater of Worlds Item": "Eater of Worlds",
+};
+
+/**
+ * Base type keywords used to infer the item class when PoB omits it
+ */
+const ITEM_CLASS_KEYWORDS: Array<[RegExp, string]> = [
+  [/\bflask\b/i, "Flask"],
+  [/\bcluster jewel\b/i, "Jewel"],
+  [/\beye jewel\b/i, "Abyss Jewel"],
+  [/\bjewel\b/i, "Jewel"],
+  [/\bring\b/i, "Ring"],
+  [/\b(amulet|talisman)\b/i, "Amulet"],
+  [/\b(belt|sash|stygian vise)\b/i, "Belt"],
+];
+
+/**
+ * Parses a raw PoB item text block
+ * @param text - Item text as stored in <Item> (one property or mod per line)
+ * @returns Structured item data
+ */
+export function parseItemText(text: string): ParsedItemText {
+  const lines = String(text ?? "")
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0 && !/^-+$/.test(line));
+
+  const result: ParsedItemText = {
+    rarity: null,
+    name: "",
+    baseType: "",
+    itemClass: "",
+    itemLevel: null,
+    quality: 0,
+    implicits: [],
+    explicits: [],
+    corrupted: false,
+    flags: {
+      mirrored: false,
+      split: false,
+      fractured: false,
+      synthesised: false,
+      unidentified: false,
+    },
+    influences: [],
+    properties: {},
+  };
+
+  let index = 0;
+
+  // In-game copies start with "Item Class: ..." before the rarity line
+  if (lines[index]?.startsWith("Item Class:")) {
+    result.itemClass = lines[index].slice("Item Class:".length).trim();
+    index++;
+  }
+
+  // Rarity, name and base type
+  if (lines[index]?.startsWith("Rarity:")) {
+    result.rarity = parseRarity(lines[index].slice("Rarity:".length).trim());
+    index++;
+  }
+
+  if (index < lines.length) {
+    result.name = lines[index++];
+    result.baseType = result.name;
+
+    // Rare and unique items have a separate base type line
+    const hasBaseLine =
+      result.rarity === "RARE" || result.rarity === "UNIQUE" || result.rarity === "RELIC";
+    if (hasBaseLine && index < lines.length && !isPropertyLine(lines[index])) {
+      result.baseType = lines[index++];
+    }
+  }
+
+  let implicitsRemaining = 0;
+  let selectedVariant: string | null = null;
+
+  for (; index < lines.length; index++) {
+    const line = lines[index];
+
+    // Header properties
+    if (isPropertyLine(line)) {
+      const separator = line.indexOf(":");
+      const key = line.slice(0, separator).trim();
+      const value = line.slice(separator + 1).trim();
+
+      switch (key) {
+        case "Item Class":
+          result.itemClass = value;
+          break;
+        case "Item Level":
+          result.itemLevel = parseLeadingInt(value);
+          break;
+        case "Quality":
+          result.quality = parseLeadingInt(value) ?? 0;
+          break;
+        case "Implicits":
+          implicitsRemaining = parseLeadingInt(value) ?? 0;
+          break;
+        case "Selected Variant":
+          selectedVariant = value;
+          break;
+      }
+
+      result.properties[key] = value;
+      continue;
+    }
+
+    // Item state flags
+    if (line === "Corrupted") {
+      result.corrupted = true;
+      continue;
+    }
+    if (line === "Mirrored") {
+      result.flags.mirrored = true;
+      continue;
+    }
+    if (line === "Split") {
+      result.flags.split = true;
+      continue;
+    }
+    if (line === "Fractured Item") {
+      result.flags.fractured = true;
+      continue;
+    }
+    if (line === "Synthesised Item") {
+      result.flags.synthesised = true;
+      continue;
+    }
+    if (line === "Unidentified") {
+      result.flags.unidentified = true;
+      continue;
+    }
+    if (INFLUENCE_LINES[line]) {
+      result.influences.push(INFLUENCE_LINES[line]);
+      continue;
+    }
+
+    // Modifier line (implicits come first, counted by "Implicits: N";
+    // in-game copies mark them with "(implicit)" or "(enchant)" instead)
+    const countedImplicit = implicitsRemaining > 0;
+    if (countedImplicit) {
+      implicitsRemaining--;
+    }
+
+    if (!appliesToVariant(line, selectedVariant)) {
+      continue;
+    }
+
+    const mod = parseModLine(line);
+    if (mod.text.length === 0) {
+      continue;
+    }
+
+    if (countedImplicit || mod.tags.includes("implicit") || mod.tags.includes("enchant")) {
+      result.implicits.push(mod);
+    } else {
+      result.explicits.push(mod);
+    }
+  }
+
+  if (!result.itemClass) {
+    result.itemClass = inferItemClass(result.baseType);
+  }
+
+  return result;
+}
+
+/**
+ * Checks whether a line is a known "Key: value" header line
+ */
+function isPropertyLine(line: string): boolean {
+  const separator = line.indexOf(":");
+  if (separator <= 0) {
+    return false;
+  }
+  return PROPERTY_KEYS.has(line.slice(0, separator).trim());
+}
+
+/**
+ * Normalizes the rarity string from the "Rarity:" line
+ */
+function parseRarity(value: string): ItemRarity | null {
+  const upper = value.toUpperCase();
+  if (
+    upper === "NORMAL" ||
+    upper === "MAGIC" ||
+    upper === "RARE" ||
+    upper === "UNIQUE" ||
+    upper === "RELIC"
+  ) {
+    return upper;
+  }
+  return null;
+}
+
+/**
+ * Parses the first integer in a property value ("+20% (augmented)" -> 20)
+ */
+function parseLeadingInt(value: string): number | null {
+  const match = value.match(/-?\d+/);
+  return match ? parseInt(match[0], 10) : null;
+}
+
+/**
+ * Checks a "{variant:1,2}" tag against the item's selected variant
+ */
+function appliesToVariant(line: string, selectedVariant: string | null): boolean {
+  const match = line.match(/\{variant:([\d,]+)\}/);
+  if (!match || selectedVariant === null) {
+    return true;
+  }
+  return match[1].split(",").includes(selectedVariant);
+}
+
+/**
+ * Splits leading PoB mod tags such as {crafted}, {range:0.5} or {tags:life} from a line,
+ * along with trailing in-game markers such as "(crafted)"
+ */
+function parseModLine(line: string): ParsedModLine {
+  const tags: string[] = [];
+  let range: number | null = null;
+
+  let text = line.replace(/^(\{[^}]*\})+/, (prefix) => {
+    for (const [, name, value] of prefix.matchAll(/\{([^}:]*):?([^}]*)\}/g)) {
+      const tag = name.trim().toLowerCase();
+      tags.push(tag);
+      if (tag === "range" && !isNaN(parseFloat(value))) {
+        range = parseFloat(value);
+      }
+    }
+    return "";
+  });
+
+  const marker = text.match(/\s*\((crafted|fractured|enchant|implicit)\)$/i);
+  if (marker) {
+    tags.push(marker[1].toLowerCase());
+    text = text.slice(0, marker.index);
+  }
+
+  return { text: text.trim(), tags, range };
+}
+
+/**
+ * Infers an item class from the base type name where it is unambiguous
+ */
+function inferItemClass(baseType: string): string {
+  for (const [pattern, itemClass] of ITEM_CLASS_KEYWORDS) {
+    if (pattern.test(baseType)) {
+      return itemClass;
+    }
+  }
+  return "";
+}
@@ -0,0 +1,134 @@
+/**
+ * Jewel Parser
+ *
+ * Resolves jewels socketed in a passive tree spec (<Sockets><Socket nodeId itemId/>)
+ * against the items in the <Items> section
+ */
+
+import type { ClusterJewelInfo, ClusterJewelSize, Jewel, JewelType } from "../models/jewel.js";
+import type { GearSlotType } from "../models/gear.js";
+import { parseGearSlot } from "./gear-parser.js";
+import { parseItemText, type ParsedItemText } from "./item-text-parser.js";
+
+/**
+ * Parses the jewels socketed in a single tree spec
+ * @param spec - PoB <Spec> element
+ * @param itemsSection - PoB <Items> section
+ * @returns Array of Jewel entities (empty sockets are skipped)
+ */
+export function parseJewels(spec: any, itemsSection: any): Jewel[] {
+  const sockets = spec?.Sockets?.Socket;
+  if (!sockets || !itemsSection?.Item) {
+    return [];
+  }
+
+  const socketArray = Array.isArray(sockets) ? sockets : [sockets];
+  const items = Array.isArray(itemsSection.Item) ? itemsSection.Item : [itemsSection.Item];
+
+  const jewels: Jewel[] = [];
+
+  socketArray.forEach((socket: any) => {
+    // itemId 0 marks an empty socket
+    if (!socket || !socket.nodeId || !socket.itemId || String(socket.itemId) === "0") {
+      return;
+    }
+
+    const item = items.find((entry: any) => String(entry?.id) === String(socket.itemId));
+    const slotType = `Jewel${socket.nodeId}` as GearSlotType;
+    const gearSlot = item ? parseGearSlot(item, slotType) : null;
+    if (!gearSlot) {
+      return;
+    }
+
+    const parsed = parseItemText(String(typeof item === "string" ? item : item.$));
+    const jewelType = determineJewelType(parsed);
+
+    jewels.push({
+      ...gearSlot,
+      itemId: String(socket.itemId),
+      socketNodeId: String(socket.nodeId),
+      jewelType,
+      cluster: jewelType === "cluster" ? parseClusterInfo(parsed) : null,
+    });
+  });
+
+  return jewels;
+}
+
+/**
+ * Classifies a jewel from its base type and rarity
+ */
+function determineJewelType(parsed: ParsedItemText): JewelType {
+  const baseType = parsed.baseType.toLowerCase();
+
+  if (baseType.includes("timeless jewel")) {
+    return "timeless";
+  }
+  if (baseType.includes("cluster jewel")) {
+    return "cluster";
+  }
+  if (baseType.includes("eye jewel")) {
+    return "abyss";
+  }
+  if (parsed.rarity === "UNIQUE") {
+    return "unique";
+  }
+  return "regular";
+}
+
+/**
+ * Extracts cluster jewel size, passive count, enchant and added notables
+ */
+function parseClusterInfo(parsed: ParsedItemText): ClusterJewelInfo {
+  const size = (["Small", "Medium", "Large"] as ClusterJewelSize[]).find((candidate) =>
+    parsed.baseType.toLowerCase().includes(candidate.toLowerCase())
+  );
+
+  const lines = [...parsed.implicits, ...parsed.explicits].map((mod) => mod.text);
+  const info: ClusterJewelInfo = {
+    size: size || "Large",
+    passiveCount: null,
+    enchant: null,
+    skill: parsed.properties["Cluster Jewel Skill"] || null,
+    notables: [],
+    jewelSockets: 0,
+  };
+
+  const nodeCount = parseInt(parsed.properties["Cluster Jewel Node Count"] || "", 10);
+  if (!isNaN(nodeCount)) {
+    info.passiveCount = nodeCount;
+  }
+
+  const enchants: string[] = [];
+
+  for (const line of lines) {
+    const addsMatch = line.match(/^Adds (\d+) Passive Skills?$/i);
+    if (addsMatch) {
+      info.passiveCount = parseInt(addsMatch[1], 10);
+      continue;
+    }
+
+    const socketMatch = line.match(/^(\d+|An?) Added Passive Skills? (?:is|are) (?:a )?Jewel Sockets?$/i);
+    if (socketMatch) {
+      info.jewelSockets = /^\d+$/.test(socketMatch[1]) ? parseInt(socketMatch[1], 10) : 1;
+      continue;
+    }
+
+    const notableMatch = line.match(/^1 Added Passive Skill is (.+)$/i);
+    if (notableMatch) {
+      info.notables.push(notableMatch[1].trim());
+      continue;
+    }
+
+    const enchantMatch = line.match(/^Added Small Passive Skills (?:also )?grant:?\s*(.+)$/i);
+    if (enchantMatch) {
+      enchants.push(enchantMatch[1].trim());
+    }
+  }
+
+  if (enchants.length > 0) {
+    info.enchant = enchants.join("; ");
+  }
+
+  return info;
+}
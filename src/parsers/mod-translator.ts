@@ -0,0 +1,174 @@
+/**
+ * Mod Translator
+ *
+ * Translates modifier text into canonical stats with all numeric values,
+ * and looks up mod tiers in the local mod database
+ */
+
+import type { AffixGeneration, AffixRange, AffixStat, AffixTier } from "../models/gear.js";
+import { MOD_TRANSLATIONS, type ModTranslation } from "../data/mod-translations.js";
+import { MOD_TIERS } from "../data/mod-tiers.js";
+
+/**
+ * Result of translating a modifier line
+ */
+export interface TranslatedMod {
+  template: string | null; // Matched translation template (null when untranslated)
+  values: number[]; // Numeric values in text order
+  stats: AffixStat[];
+  range: AffixRange | null; // Range written in the text ("+(60-80) to maximum Life")
+  generation: AffixGeneration | null; // Prefix/suffix when the table knows it
+}
+
+/**
+ * Number in mod text: a plain value or a PoB "(min-max)" range
+ */
+const NUMBER_PATTERN = "([+-]?(?:\\d+(?:\\.\\d+)?|\\(-?\\d+(?:\\.\\d+)?-\\d+(?:\\.\\d+)?\\)))";
+
+/**
+ * Compiled translation (sign is -1 for the reduced/less form)
+ */
+interface CompiledTranslation {
+  translation: ModTranslation;
+  pattern: RegExp;
+  sign: number;
+}
+
+let compiledTranslations: CompiledTranslation[] | null = null;
+
+/**
+ * Compiles the translation table into anchored, case-insensitive patterns
+ */
+function getCompiledTranslations(): CompiledTranslation[] {
+  if (compiledTranslations) {
+    return compiledTranslations;
+  }
+
+  compiledTranslations = [];
+  for (const translation of MOD_TRANSLATIONS) {
+    compiledTranslations.push({ translation, pattern: compileTemplate(translation.template), sign: 1 });
+
+    for (const [word, opposite] of [
+      ["increased", "reduced"],
+      ["more", "less"],
+    ]) {
+      if (new RegExp(`\\b${word}\\b`).test(translation.template)) {
+        compiledTranslations.push({
+          translation,
+          pattern: compileTemplate(translation.template.replace(word, opposite)),
+          sign: -1,
+        });
+      }
+    }
+  }
+
+  return compiledTranslations;
+}
+
+/**
+ * Converts a template into a regex ("+#" also matches "#" and "-#")
+ */
+function compileTemplate(template: string): RegExp {
+  const escaped = template
+    .replace(/\+#/g, "#")
+    .replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+    .replace(/#/g, NUMBER_PATTERN);
+  return new RegExp(`^${escaped}$`, "i");
+}
+
+/**
+ * Translates a modifier line into canonical stats
+ * @param text - Modifier text without PoB tags
+ * @param rangePosition - PoB {range:x} roll position for "(min-max)" values (midpoint when omitted)
+ * @returns Translated mod (no stats when the line is not in the table)
+ */
+export function translateMod(text: string, rangePosition: number | null = null): TranslatedMod {
+  const line = text.trim();
+
+  for (const { translation, pattern, sign } of getCompiledTranslations()) {
+    const match = line.match(pattern);
+    if (!match) {
+      continue;
+    }
+
+    const numbers = match.slice(1).map((token) => parseNumberToken(token, sign, rangePosition));
+    const values = numbers.map((number) => number.value);
+
+    return {
+      template: translation.template,
+      values,
+      stats: assignStats(translation.stats, values),
+      range: numbers.length === 1 ? numbers[0].range : null,
+      generation: translation.generation || null,
+    };
+  }
+
+  // Untranslated: keep the numbers so callers still see them
+  const values = (line.match(/[+-]?\d+(?:\.\d+)?/g) || []).map((token) => parseFloat(token));
+  return { template: null, values, stats: [], range: null, generation: null };
+}
+
+/**
+ * Finds the mod tier of a value
+ * @param template - Translation template of the mod
+ * @param value - Rolled value
+ * @returns Tier, or null when the mod or value is not in the database
+ */
+export function findModTier(template: string | null, value: number | null): AffixTier | null {
+  if (!template || value === null) {
+    return null;
+  }
+
+  const modTiers = MOD_TIERS[template] || [];
+  const index = modTiers.findIndex((tier) => value >= tier.min && value <= tier.max);
+  if (index === -1) {
+    return null;
+  }
+
+  const tier = modTiers[index];
+  return {
+    tier: index + 1,
+    name: tier.name,
+    itemLevel: tier.itemLevel,
+    range: { min: tier.min, max: tier.max },
+  };
+}
+
+/**
+ * Parses a number token; ranges resolve at the roll position (midpoint by default)
+ */
+function parseNumberToken(
+  token: string,
+  sign: number,
+  rangePosition: number | null
+): { value: number; range: AffixRange | null } {
+  const rangeMatch = token.match(/\((-?\d+(?:\.\d+)?)-(\d+(?:\.\d+)?)\)/);
+  if (!rangeMatch) {
+    return { value: parseFloat(token) * sign, range: null };
+  }
+
+  const tokenSign = token.startsWith("-") ? -sign : sign;
+  const min = parseFloat(rangeMatch[1]);
+  const max = parseFloat(rangeMatch[2]);
+  const rolled = min + (max - min) * Math.min(1, Math.max(0, rangePosition ?? 0.5));
+  const value = Number.isInteger(min) && Number.isInteger(max) ? Math.round(rolled) : rolled;
+
+  return {
+    value: value * tokenSign,
+    range: tokenSign < 0 ? { min: -max, max: -min } : { min, max },
+  };
+}
+
+/**
+ * Distributes values over the stats of a translation
+ */
+function assignStats(ids: string[], values: number[]): AffixStat[] {
+  return ids.map((id, index) => {
+    const statValues = ids.length > 1 && ids.length === values.length ? [values[index]] : values;
+    const value =
+      statValues.length > 0
+        ? statValues.reduce((sum, entry) => sum + entry, 0) / statValues.length
+        : 0;
+    return { id, values: statValues, value };
+  });
+}
@@ -0,0 +1,120 @@
+/**
+ * Notes Parser
+ *
+ * Cleans the <Notes> section and extracts headings, links and priority lists
+ */
+
+import type { BuildNotes, NoteList } from "../models/notes.js";
+
+/**
+ * PoB colour codes: "^xRRGGBB" and "^0".."^9"
+ */
+const COLOR_CODE_PATTERN = /\^x[0-9a-fA-F]{6}|\^[0-9]/g;
+
+/**
+ * Lines starting with a colour code are treated as headings up to this length
+ */
+const MAX_HEADING_LENGTH = 60;
+
+/**
+ * Headings whose lists state the author's priorities
+ */
+const PRIORITY_HEADING_PATTERN = /priorit|goal|focus|upgrade|checklist|todo|to do/i;
+
+/**
+ * Parses PoB Notes section
+ * @param notesSection - PoB <Notes> element (plain text)
+ * @returns BuildNotes entity, or null if the build has no notes
+ */
+export function parseNotes(notesSection: any): BuildNotes | null {
+  const raw =
+    typeof notesSection === "object" && notesSection !== null ? notesSection.$ : notesSection;
+
+  if (raw === undefined || raw === null || String(raw).trim().length === 0) {
+    return null;
+  }
+
+  const rawLines = String(raw).split(/\r?\n/);
+  const lines = rawLines.map((line) => stripColorCodes(line).trim());
+
+  const headings: string[] = [];
+  const lists: NoteList[] = [];
+  let currentHeading: string | null = null;
+  let currentList: NoteList | null = null;
+
+  rawLines.forEach((rawLine, index) => {
+    const line = lines[index];
+
+    if (line.length === 0) {
+      currentList = null;
+      return;
+    }
+
+    const listItem = parseListItem(line);
+    if (listItem) {
+      if (!currentList || currentList.ordered !== listItem.ordered) {
+        currentList = { heading: currentHeading, ordered: listItem.ordered, items: [] };
+        lists.push(currentList);
+      }
+      currentList.items.push(listItem.text);
+      return;
+    }
+
+    currentList = null;
+
+    if (isHeading(rawLine.trim(), line)) {
+      currentHeading = line.replace(/^[#=\-\s]+/, "").replace(/[:=\-\s]+$/, "").trim();
+      headings.push(currentHeading);
+    }
+  });
+
+  const text = lines.join("\n").trim();
+
+  return {
+    text,
+    raw: String(raw),
+    headings,
+    links: Array.from(new Set(text.match(/https?:\/\/[^\s<>"')\]]+/g) || [])),
+    lists,
+    priorities: lists.filter(
+      (list) => list.ordered || (list.heading !== null && PRIORITY_HEADING_PATTERN.test(list.heading))
+    ),
+  };
+}
+
+/**
+ * Removes PoB colour codes from a line
+ */
+export function stripColorCodes(text: string): string {
+  return text.replace(COLOR_CODE_PATTERN, "");
+}
+
+/**
+ * Detects headings: colour-coded lines, markdown "#" lines, "=== X ===" and short "X:" lines
+ */
+function isHeading(rawLine: string, line: string): boolean {
+  if (/^#+\s*\S/.test(line) || /^[=\-]{2,}.*[=\-]{2,}$/.test(line)) {
+    return true;
+  }
+  if (line.length > MAX_HEADING_LENGTH || /https?:\/\//.test(line)) {
+    return false;
+  }
+  return /^\^(x[0-9a-fA-F]{6}|[0-9])/.test(rawLine) || /^[^:]+:$/.test(line);
+}
+
+/**
+ * Parses a numbered ("1.", "1)") or bulleted ("-", "*", "•") line
+ */
+function parseListItem(line: string): { ordered: boolean; text: string } | null {
+  const ordered = line.match(/^\d+[.)]\s+(.+)$/);
+  if (ordered) {
+    return { ordered: true, text: ordered[1].trim() };
+  }
+
+  const bullet = line.match(/^[-*•]\s+(.+)$/);
+  if (bullet) {
+    return { ordered: false, text: bullet[1].trim() };
+  }
+
+  return null;
+}
@@ -1,99 +1,162 @@
 /**
  * Passive Tree Parser
  *
- * Extracts passive tree nodes, keystones, and notables from the <Tree> section
+ * Extracts passive tree specs, nodes, keystones, and notables from the <Tree> section
  */
 
-import type { PassiveTree, Keystone, Notable } from "../models/passive-tree.js";
-import { readFileSync } from "fs";
-import { join } from "path";
-
-// Calculate __dirname relative to src/parsers/
-const __dirname = join(process.cwd(), "src", "parsers");
+import type {
+  PassiveTree,
+  PassiveSpec,
+  Keystone,
+  Notable,
+  MasteryEffect,
+  MasterySelection,
+} from "../models/passive-tree.js";
+import { decodePassiveTreeUrl, type PassiveTreeUrlData } from "../utils/passive-tree-url.js";
+import type { GearSlot } from "../models/gear.js";
+import { findNotableByName, loadPassiveTreeData } from "../data/passive-tree-data.js";
+import { parseJewels } from "./jewel-parser.js";
 
 /**
- * Keystones data (loaded from data/keystones.json)
+ * Parses passive tree data from PoB Tree section
+ * @param treeSection - PoB <Tree> XML section
+ * @param itemsSection - PoB <Items> section (used to resolve socketed jewels)
+ * @returns PassiveTree entity for the active spec
  */
-let keystonesData: any[] = [];
+export function parsePassives(treeSection: any, itemsSection?: any): PassiveTree {
+  const specs = parsePassiveSpecs(treeSection, itemsSection);
+  const activeSpec = specs.find((spec) => spec.active) || specs[0];
+
+  if (!activeSpec) {
+    return {
+      totalPoints: 0,
+      nodes: [],
+      keystones: [],
+      notables: [],
+      masteries: [],
+      anoints: [],
+      version: treeSection?.version || "unknown",
+    };
+  }
+
+  return activeSpec;
+}
 
 /**
- * Load keystones data from file
+ * Returns the raw <Spec> element of the active spec (the first spec when activeSpec is out of range)
+ * @param treeSection - PoB <Tree> XML section
+ * @returns <Spec> element, or null if the build has no specs
  */
-function loadKeystonesData(): void {
-  try {
-    const dataPath = join(__dirname, "../../data", "keystones.json");
-    const fileContent = readFileSync(dataPath, "utf-8");
-    keystonesData = JSON.parse(fileContent);
-  } catch (error) {
-    console.error("Failed to load keystones data:", error);
-    keystonesData = [];
+export function getActiveSpecElement(treeSection: any): any | null {
+  // Older builds nest specs under <Specs>
+  const specSource = treeSection?.Spec || treeSection?.Specs?.Spec;
+  if (!specSource) {
+    return null;
   }
+
+  const specs = Array.isArray(specSource) ? specSource : [specSource];
+
+  // activeSpec is a 1-based index into the spec list
+  const activeIndex = parseInt(String(treeSection.activeSpec ?? 1), 10) - 1;
+  return specs[activeIndex] || specs[0];
 }
 
 /**
- * Parses passive tree data from PoB Tree section
+ * Parses every passive tree spec from PoB Tree section
  * @param treeSection - PoB <Tree> XML section
- * @returns PassiveTree entity
+ * @param itemsSection - PoB <Items> section (used to resolve socketed jewels)
+ * @returns Array of PassiveSpec entities (empty if the build has no specs)
  */
-export function parsePassives(treeSection: any): PassiveTree {
-  // Load keystones data on first call
-  if (keystonesData.length === 0) {
-    loadKeystonesData();
+export function parsePassiveSpecs(treeSection: any, itemsSection?: any): PassiveSpec[] {
+  if (!treeSection || (!treeSection.Spec && !treeSection.Specs?.Spec)) {
+    return [];
   }
 
-  if (!treeSection) {
-    return {
-      totalPoints: 0,
-      nodes: [],
-      keystones: [],
-      notables: [],
-      version: "unknown",
-    };
-  }
+  // Older builds nest specs under <Specs>
+  const specSource = treeSection.Spec || treeSection.Specs.Spec;
+  const specs = Array.isArray(specSource) ? specSource : [specSource];
+
+  // activeSpec is a 1-based index into the spec list
+  const activeId = String(treeSection.activeSpec ?? 1);
+
+  return specs.map((spec: any, index: number) => {
+    const id = String(index + 1);
+    const urlData = decodeSpecUrl(spec);
+    const nodes = extractNodeIds(spec, urlData);
+    const version = spec.treeVersion ? String(spec.treeVersion) : treeSection.version || "unknown";
+
+    // Identify keystones and notables from node IDs
+    const { keystones, notables } = identifySpecialNodes(nodes, version);
 
-  // Extract allocated node IDs
-  const nodes = extractNodeIds(treeSection);
+    // Attribute mastery selections win; the tree link carries them since format 6
+    const attributeMasteries = parseMasteryEffects(spec.masteryEffects);
+    const masteryEffects =
+      attributeMasteries.length > 0 ? attributeMasteries : urlData?.masteryEffects || [];
 
-  // Extract version
-  const version = treeSection.version || "unknown";
+    return {
+      id,
+      title: spec.title ? String(spec.title) : "Default",
+      classId: parseInt(spec.classId ?? urlData?.classId ?? "0", 10) || 0,
+      ascendClassId: parseInt(spec.ascendClassId ?? urlData?.ascendClassId ?? "0", 10) || 0,
+      totalPoints: nodes.length,
+      nodes,
+      keystones,
+      notables,
+      masteries: resolveMasteryEffects(masteryEffects, version),
+      anoints: [],
+      masteryEffects,
+      jewels: parseJewels(spec, itemsSection),
+      version,
+      active: id === activeId,
+    };
+  });
+}
 
-  // Identify keystones and notables from node IDs
-  const { keystones, notables } = identifySpecialNodes(nodes);
+/**
+ * Decodes the spec's <URL> tree link, if present and valid
+ */
+function decodeSpecUrl(spec: any): PassiveTreeUrlData | null {
+  const url = typeof spec.URL === "string" ? spec.URL : spec.URL?.$;
+  if (!url) {
+    return null;
+  }
 
-  return {
-    totalPoints: nodes.length,
-    nodes,
-    keystones,
-    notables,
-    version,
-  };
+  try {
+    return decodePassiveTreeUrl(String(url));
+  } catch {
+    return null;
+  }
 }
 
 /**
- * Extracts node IDs from tree section
+ * Extracts node IDs from a single spec
+ * Source of truth: decoded tree link, then the nodes="..." attribute, then legacy <node> children
  */
-function extractNodeIds(treeSection: any): string[] {
+function extractNodeIds(spec: any, urlData: PassiveTreeUrlData | null): string[] {
+  if (urlData && urlData.nodes.length + urlData.clusterNodes.length > 0) {
+    return [...urlData.nodes, ...urlData.clusterNodes];
+  }
+
+  // Comma-separated nodes attribute (single nodes parse as a number)
+  if (typeof spec.nodes === "string" || typeof spec.nodes === "number") {
+    return String(spec.nodes)
+      .split(",")
+      .map((nodeId) => nodeId.trim())
+      .filter((nodeId) => /^\d+$/.test(nodeId));
+  }
+
   const nodes: string[] = [];
 
-  // Extract from Specs node
-  if (treeSection.Specs && treeSection.Specs.Spec) {
-    const specs = Array.isArray(treeSection.Specs.Spec)
-      ? treeSection.Specs.Spec
-      : [treeSection.Specs.Spec];
-
-    specs.forEach((spec: any) => {
-      if (spec.nodes && spec.nodes.node) {
-        const nodeIds = Array.isArray(spec.nodes.node)
-          ? spec.nodes.node
-          : [spec.nodes.node];
-
-        nodeIds.forEach((nodeId: any) => {
-          if (typeof nodeId === "string") {
-            nodes.push(nodeId);
-          } else if (typeof nodeId === "object" && nodeId.$) {
-            nodes.push(nodeId.$);
-          }
-        });
+  if (spec.nodes && spec.nodes.node) {
+    const nodeIds = Array.isArray(spec.nodes.node)
+      ? spec.nodes.node
+      : [spec.nodes.node];
+
+    nodeIds.forEach((nodeId: any) => {
+      if (typeof nodeId === "string" || typeof nodeId === "number") {
+        nodes.push(String(nodeId));
+      } else if (typeof nodeId === "object" && nodeId.$) {
+        nodes.push(String(nodeId.$));
       }
     });
   }
@@ -102,23 +165,94 @@ function extractNodeIds(treeSection: any): string[] {
 }
 
 /**
- * Identifies keystones and notables from node IDs
+ * Parses the masteryEffects attribute ("{node,effect},{node,effect}")
  */
-function identifySpecialNodes(nodeIds: string[]): {
+function parseMasteryEffects(masteryEffects: unknown): MasterySelection[] {
+  if (typeof masteryEffects !== "string") {
+    return [];
+  }
+
+  const selections: MasterySelection[] = [];
+  for (const match of masteryEffects.matchAll(/\{(\d+),(\d+)\}/g)) {
+    selections.push({ nodeId: match[1], effectId: match[2] });
+  }
+
+  return selections;
+}
+
+/**
+ * Resolves mastery selections to mastery names and effect text
+ */
+function resolveMasteryEffects(selections: MasterySelection[], version: string): MasteryEffect[] {
+  const treeData = loadPassiveTreeData(version);
+
+  return selections.map((selection) => {
+    const node = treeData?.nodes.get(selection.nodeId);
+    const effect = node?.masteryEffects.find((option) => option.effect === selection.effectId);
+
+    return {
+      nodeId: selection.nodeId,
+      effectId: selection.effectId,
+      name: node?.name || "Unknown Mastery",
+      effect: effect ? effect.stats.join("; ") : "",
+    };
+  });
+}
+
+/**
+ * Returns a copy of the passive tree with the amulet's anointed notables attached
+ * @param passives - Passive tree (active or selected spec)
+ * @param gear - Equipped gear of the active or selected item set
+ * @returns Passive tree with anoints populated
+ */
+export function attachAnoints(passives: PassiveTree, gear: GearSlot[]): PassiveTree {
+  const anoints: Notable[] = [];
+  const amulet = gear.find((g) => g.slot === "Amulet");
+
+  for (const affix of amulet?.affixes || []) {
+    const match = affix.text.match(/^Allocates (.+)$/i);
+    if (!match) {
+      continue;
+    }
+
+    const name = match[1].trim();
+    const node = findNotableByName(name, passives.version);
+    anoints.push({
+      id: node?.id || "",
+      name: node?.name || name,
+      effect: node ? node.stats.join("; ") : "",
+    });
+  }
+
+  return { ...passives, anoints };
+}
+
+/**
+ * Identifies keystones and notables from node IDs using the tree data for the spec's version
+ */
+function identifySpecialNodes(nodeIds: string[], version: string): {
   keystones: Keystone[];
   notables: Notable[];
 } {
-  const keystonesMap = new Map(
-    keystonesData.map((k) => [k.id, { id: k.id, name: k.name, effect: k.effects?.join("; ") || "" }])
-  );
-
   const keystones: Keystone[] = [];
   const notables: Notable[] = [];
 
+  const treeData = loadPassiveTreeData(version);
+  if (!treeData) {
+    return { keystones, notables };
+  }
+
   nodeIds.forEach((nodeId) => {
-    if (keystonesMap.has(nodeId)) {
-      const keystone = keystonesMap.get(nodeId)!;
-      keystones.push(keystone);
+    const node = treeData.nodes.get(nodeId);
+    if (!node) {
+      return;
+    }
+
+    const entry = { id: node.id, name: node.name, effect: node.stats.join("; ") };
+    if (node.isKeystone) {
+      keystones.push(entry);
+    } else if (node.isNotable) {
+      notables.push(entry);
     }
   });
 
@@ -2,12 +2,14 @@
  * PoB XML Structure Parser
  *
  * Decodes base64, decompresses zlib, and extracts root XML element
+ * (raw XML, e.g. from PoB's "Save As", can be parsed directly)
  */
 
 import { XMLParser } from "fast-xml-parser";
 import { decodeBase64 } from "../utils/base64-decoder.js";
 import { decompressWithFallback } from "../utils/decompressor.js";
 import { ErrorCode, PoBParsingError } from "../utils/error-handler.js";
+import { assertXmlWithinLimits } from "../utils/payload-limits.js";
 
 /**
  * Parses a PoB build code and returns the root XML object
@@ -23,25 +25,50 @@ export function parsePoBXML(buildCode: string): any {
   const xmlString = decompressWithFallback(decodedBuffer);
 
   // Step 3: Parse XML
+  return parsePoBXMLString(xmlString);
+}
+
+/**
+ * Parses decompressed PoB XML (e.g. a file saved from PoB) and returns the root XML object
+ * @param xmlString - PoB XML text
+ * @returns Parsed XML object
+ * @throws PoBParsingError if parsing fails
+ */
+export function parsePoBXMLString(xmlString: string): any {
+  if (typeof xmlString !== "string" || xmlString.trim().length === 0) {
+    throw new PoBParsingError(ErrorCode.INVALID_XML, "Input must be non-empty PoB XML");
+  }
+
+  // Size, depth and element limits are checked before the parser allocates anything
+  assertXmlWithinLimits(xmlString);
+
+  // Attributes are merged without prefix and element text is exposed as "$"
+  // (e.g. the raw item text of <Item id="1">...</Item>)
   const parser = new XMLParser({
     ignoreAttributes: false,
+    attributeNamePrefix: "",
+    textNodeName: "$",
     ignoreDeclaration: true,
     parseAttributeValue: true,
     trimValues: true,
+    // Standard XML entities (&amp; etc.) are still decoded; DOCTYPE entities are rejected above
+    htmlEntities: false,
   });
 
   try {
-    const parsed = parser.parse(xmlString);
+    // Files saved by editors may start with a byte order mark
+    const parsed = parser.parse(xmlString.replace(/^\uFEFF/, ""));
 
     // Validate root element is PathOfBuilding
-    if (!parsed.PathOfBuilding) {
+    if (parsed.PathOfBuilding === undefined) {
       throw new PoBParsingError(
         ErrorCode.INVALID_XML,
         "Root element must be <PathOfBuilding>"
       );
     }
 
-    return parsed.PathOfBuilding;
+    // An empty root (<PathOfBuilding/>) parses to ""; its sections are all missing
+    return parsed.PathOfBuilding || {};
   } catch (error) {
     if (error instanceof PoBParsingError) {
       throw error;
@@ -55,24 +82,8 @@ export function parsePoBXML(buildCode: string): any {
 }
 
 /**
- * Validates PoB version
+ * Checks whether input looks like raw PoB XML rather than a build code
  */
-export function validatePoBVersion(pobXML: any): void {
-  if (!pobXML.version) {
-    throw new PoBParsingError(
-      ErrorCode.UNSUPPORTED_VERSION,
-      "PoB version not specified"
-    );
-  }
-
-  const version = pobXML.version;
-  const minVersion = "1.4.170";
-
-  // Simple version string comparison (works for our format)
-  if (version < minVersion) {
-    throw new PoBParsingError(
-      ErrorCode.UNSUPPORTED_VERSION,
-      `PoB version ${version} is not supported (minimum: ${minVersion})`
-    );
-  }
+export function isPoBXMLText(input: string): boolean {
+  return typeof input === "string" && /^\uFEFF?\s*</.test(input);
 }
@@ -1,74 +1,202 @@
 /**
  * Skill Parser
  *
- * Extracts main skills and support gems from the <Skills> section
+ * Extracts socket groups (active skills and support gems) from the <Skills> section
  */
 
-import type { SkillSetup, SupportGem } from "../models/build.js";
+import type { SkillGem, SkillSet, SkillSetup, SupportGem } from "../models/build.js";
+import { normalizeSlotName } from "./gear-parser.js";
 
 /**
  * Parses skill data from PoB Skills section
  * @param skillsSection - PoB <Skills> XML section
- * @returns Array of SkillSetup entities
+ * @param mainSocketGroup - 1-based main socket group index from <Build mainSocketGroup>
+ * @returns Array of SkillSetup entities from the active skill set
  */
-export function parseSkills(skillsSection: any): SkillSetup[] {
-  if (!skillsSection || !Array.isArray(skillsSection.Skill)) {
+export function parseSkills(skillsSection: any, mainSocketGroup?: any): SkillSetup[] {
+  const skillSets = parseSkillSets(skillsSection, mainSocketGroup);
+  const activeSet = skillSets.find((set) => set.active) || skillSets[0];
+  return activeSet ? activeSet.skills : [];
+}
+
+/**
+ * Parses every skill set from PoB Skills section
+ * @param skillsSection - PoB <Skills> XML section
+ * @param mainSocketGroup - 1-based main socket group index from <Build mainSocketGroup>
+ * @returns Array of SkillSet entities (empty if the build has no skills)
+ */
+export function parseSkillSets(skillsSection: any, mainSocketGroup?: any): SkillSet[] {
+  if (!skillsSection) {
     return [];
   }
 
-  const skills: SkillSetup[] = [];
-  const skillArray = Array.isArray(skillsSection.Skill)
-    ? skillsSection.Skill
-    : [skillsSection.Skill];
+  // Older builds place <Skill> elements directly under <Skills>
+  if (!skillsSection.SkillSet) {
+    const skills = toArray(skillsSection.Skill);
+    if (skills.length === 0) {
+      return [];
+    }
+    return [
+      {
+        id: "1",
+        title: "Default",
+        active: true,
+        skills: parseSkillGroups(skills, mainSocketGroup),
+      },
+    ];
+  }
+
+  const skillSets = toArray(skillsSection.SkillSet);
+
+  const activeId =
+    skillsSection.activeSkillSet !== undefined
+      ? String(skillsSection.activeSkillSet)
+      : String(skillSets[0]?.id ?? "1");
+
+  return skillSets.map((set: any, index: number) => {
+    const id = set.id !== undefined ? String(set.id) : String(index + 1);
+    const active = id === activeId;
+    return {
+      id,
+      title: set.title ? String(set.title) : "Default",
+      active,
+      // mainSocketGroup refers to the active set; other sets pick their own main group
+      skills: parseSkillGroups(toArray(set.Skill), active ? mainSocketGroup : undefined),
+    };
+  });
+}
+
+/**
+ * Parses the <Skill> groups of one skill set
+ */
+function parseSkillGroups(skillArray: any[], mainSocketGroup?: any): SkillSetup[] {
+  const mainIndex = parseInt(String(mainSocketGroup ?? ""), 10);
+
+  const skills = skillArray.map((skill: any, index: number) => {
+    const gems = parseGems(skill);
+    const activeGems = gems.filter((gem) => !gem.isSupport && gem.enabled);
+    const mainActiveSkill = parseInt(String(skill.mainActiveSkill ?? "1"), 10) || 1;
+
+    // mainActiveSkill indexes the enabled active gems of the group
+    const activeGem = activeGems[mainActiveSkill - 1] || activeGems[0] || null;
 
-  skillArray.forEach((skill: any, index: number) => {
     const skillSetup: SkillSetup = {
       id: `skill-${index + 1}`,
-      skillName: skill.gem?.name || skill.name || "Unknown",
-      gemLevel: parseInt(skill.gem?.level || skill.level || "1", 10),
-      quality: parseInt(skill.gem?.quality || skill.quality || "0", 10),
-      supports: parseSupportGems(skill),
-      linkCount: calculateLinkCount(skill),
-      isMainSkill: skill.mainActive || false,
+      skillName: activeGem?.name || skill.label || skill.gem?.name || skill.name || "Unknown",
+      gemLevel: activeGem ? activeGem.level : parseInt(skill.gem?.level || skill.level || "1", 10),
+      quality: activeGem ? activeGem.quality : parseInt(skill.gem?.quality || skill.quality || "0", 10),
+      supports: parseSupportGems(gems),
+      gems,
+      linkCount: calculateLinkCount(gems),
+      isMainSkill: isNaN(mainIndex) ? parseBoolean(skill.mainActive, false) : mainIndex === index + 1,
+      slot: skill.slot ? String(skill.slot) : null,
+      itemSlot: skill.slot ? normalizeSlotName(skill.slot) : null,
+      socketLinks: null, // Attached once the gear is known (see attachSocketLinks)
+      source: skill.source ? String(skill.source) : null,
+      label: skill.label ? String(skill.label) : null,
+      enabled: parseBoolean(skill.enabled, true),
+      includeInFullDPS: parseBoolean(skill.includeInFullDPS, false),
+      mainActiveSkill,
     };
 
-    skills.push(skillSetup);
+    return skillSetup;
   });
 
+  // Without a main group, fall back to the largest enabled group counted in full DPS
+  if (!skills.some((skill) => skill.isMainSkill)) {
+    const candidates = skills.filter((skill) => skill.enabled && skill.includeInFullDPS);
+    const fallback = (candidates.length > 0 ? candidates : skills.filter((skill) => skill.enabled))
+      .reduce<SkillSetup | null>(
+        (best, skill) => (!best || skill.linkCount > best.linkCount ? skill : best),
+        null
+      );
+    if (fallback) {
+      fallback.isMainSkill = true;
+    }
+  }
+
   return skills;
 }
 
 /**
- * Parses support gems from a skill
+ * Normalizes a single XML element or array of elements to an array
+ */
+function toArray(value: any): any[] {
+  if (!value) {
+    return [];
+  }
+  return (Array.isArray(value) ? value : [value]).filter((entry: any) => entry);
+}
+
+/**
+ * Parses the <Gem> elements of a skill group
  */
-function parseSupportGems(skill: any): SupportGem[] {
-  if (!skill.gems || !Array.isArray(skill.gems.Gem)) {
+function parseGems(skill: any): SkillGem[] {
+  // Older exports nest gems under <gems>
+  const rawGems = skill.Gem || skill.gems?.Gem;
+  if (!rawGems) {
     return [];
   }
 
-  const gems = Array.isArray(skill.gems.Gem)
-    ? skill.gems.Gem
-    : [skill.gems.Gem];
+  const gemArray = Array.isArray(rawGems) ? rawGems : [rawGems];
 
-  return gems
-    .filter((gem: any) => gem.type === "Support")
+  return gemArray
+    .filter((gem: any) => gem && typeof gem === "object")
     .map((gem: any) => ({
-      name: gem.name || "Unknown",
-      gemLevel: parseInt(gem.level || "1", 10),
-      quality: parseInt(gem.quality || "0", 10),
+      name: String(gem.nameSpec || gem.name || gem.skillId || "Unknown"),
+      skillId: gem.skillId ? String(gem.skillId) : null,
+      gemId: gem.gemId ? String(gem.gemId) : null,
+      enabled: parseBoolean(gem.enabled, true),
+      level: parseInt(String(gem.level ?? "1"), 10) || 1,
+      quality: parseInt(String(gem.quality ?? "0"), 10) || 0,
+      qualityId: gem.qualityId ? String(gem.qualityId) : "Default",
+      isSupport: isSupportGem(gem),
+    }));
+}
+
+/**
+ * Detects support gems from the skill ID, gem metadata path or legacy type attribute
+ */
+function isSupportGem(gem: any): boolean {
+  if (gem.type === "Support") {
+    return true;
+  }
+  if (typeof gem.skillId === "string" && gem.skillId.startsWith("Support")) {
+    return true;
+  }
+  if (typeof gem.gemId === "string" && gem.gemId.includes("/SupportGem")) {
+    return true;
+  }
+  return / Support$/.test(String(gem.nameSpec || gem.name || ""));
+}
+
+/**
+ * Lists the enabled support gems of a skill group
+ */
+function parseSupportGems(gems: SkillGem[]): SupportGem[] {
+  return gems
+    .filter((gem) => gem.isSupport && gem.enabled)
+    .map((gem) => ({
+      name: gem.name,
+      gemLevel: gem.level,
+      quality: gem.quality,
     }));
 }
 
 /**
- * Calculates the number of linked sockets for a skill
+ * Calculates the number of linked sockets for a skill group
  */
-function calculateLinkCount(skill: any): number {
-  // Count main skill + support gems
-  const supportCount = skill.gems?.Gem
-    ? Array.isArray(skill.gems.Gem)
-      ? skill.gems.Gem.length
-      : 1
-    : 0;
-
-  return supportCount + 1; // +1 for main skill
+function calculateLinkCount(gems: SkillGem[]): number {
+  // Every socketed gem occupies a linked socket (disabled gems included)
+  return Math.max(1, gems.length);
+}
+
+/**
+ * Reads a boolean attribute (parsed as boolean or "true"/"false" string)
+ */
+function parseBoolean(value: any, defaultValue: boolean): boolean {
+  if (value === undefined || value === null || value === "") {
+    return defaultValue;
+  }
+  return value === true || String(value).toLowerCase() === "true";
 }
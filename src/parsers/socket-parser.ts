@@ -0,0 +1,147 @@
+/**
+ * Socket Parser
+ *
+ * Parses item sockets ("Sockets: R-R-G B") and fits skill groups into the
+ * linked sockets of the items they are socketed in
+ */
+
+import type { SkillGem, SkillSetup, SocketLinkReport } from "../models/build.js";
+import type { GearSlot, ItemSockets, SocketColour } from "../models/gear.js";
+import { findGemColour } from "../data/gem-colours.js";
+
+const SOCKET_COLOURS = new Set<string>(["R", "G", "B", "W", "A"]);
+
+const COLOUR_NAMES: Record<string, string> = { R: "red", G: "green", B: "blue" };
+
+/**
+ * Parses an item's sockets line
+ * @param value - "Sockets" property value (e.g., "R-R-G B"; "-" links, spaces separate groups)
+ * @returns Item sockets, or null when the item has none
+ */
+export function parseSockets(value: string | undefined): ItemSockets | null {
+  const text = String(value ?? "").trim();
+  if (!text) {
+    return null;
+  }
+
+  const groups = text
+    .split(/\s+/)
+    .map((group) =>
+      group
+        .split("-")
+        .map((socket) => socket.trim().toUpperCase())
+        .filter((socket): socket is SocketColour => SOCKET_COLOURS.has(socket))
+    )
+    .filter((group) => group.length > 0);
+
+  if (groups.length === 0) {
+    return null;
+  }
+
+  return {
+    text,
+    groups,
+    count: groups.reduce((sum, group) => sum + group.length, 0),
+    maxLinks: Math.max(0, ...groups.map((group) => gemSockets(group).length)),
+  };
+}
+
+/**
+ * Returns copies of the skill groups fitted into the sockets of the given gear
+ * Larger groups take the largest free linked group first; PoB does not store which
+ * sockets a group uses, so this is the best fit rather than the in-game placement
+ * @param skills - Skill groups (active or selected skill set)
+ * @param gear - Equipped gear (active or selected item set)
+ * @returns Skill groups with socketLinks and linkCount from the items' sockets
+ */
+export function attachSocketLinks(skills: SkillSetup[], gear: GearSlot[]): SkillSetup[] {
+  const reports = new Map<SkillSetup, SocketLinkReport>();
+
+  for (const item of gear) {
+    if (!item.sockets) {
+      continue;
+    }
+
+    // Free sockets per linked group (abyssal sockets hold jewels, not gems)
+    const linkGroups = item.sockets.groups
+      .map((group) => gemSockets(group))
+      .filter((group) => group.length > 0)
+      .map((sockets) => ({ sockets, free: sockets.length }));
+
+    // Skills granted by the item (source="Item:...") take no socket
+    const groupsInItem = skills
+      .filter((skill) => skill.itemSlot === item.slot && !skill.source && skill.gems.length > 0)
+      .sort((a, b) => b.gems.length - a.gems.length);
+
+    for (const skill of groupsInItem) {
+      const linkGroup = linkGroups.reduce<(typeof linkGroups)[number] | null>(
+        (best, group) => (!best || group.free > best.free ? group : best),
+        null
+      );
+      const fitted = linkGroup ? Math.min(linkGroup.free, skill.gems.length) : 0;
+      if (linkGroup) {
+        linkGroup.free -= fitted;
+      }
+
+      reports.set(skill, {
+        itemName: item.itemName,
+        sockets: item.sockets.text,
+        linkedSockets: linkGroup ? linkGroup.sockets.length : 0,
+        colourMismatches: linkGroup
+          ? findColourMismatches(skill.gems.slice(0, fitted), linkGroup.sockets)
+          : [],
+        unfittedGems: skill.gems.slice(fitted).map((gem) => gem.name),
+      });
+    }
+  }
+
+  // Recomputed from the gems so the result does not depend on a previous fit
+  return skills.map((skill) => {
+    const socketLinks = reports.get(skill) || null;
+    const linkCount = socketLinks
+      ? Math.min(skill.gems.length, socketLinks.linkedSockets)
+      : skill.gems.length;
+    return { ...skill, linkCount: Math.max(1, linkCount), socketLinks };
+  });
+}
+
+/**
+ * Lists the sockets of a group that can hold gems
+ */
+function gemSockets(group: SocketColour[]): SocketColour[] {
+  return group.filter((socket) => socket !== "A");
+}
+
+/**
+ * Compares the colours the fitted gems need with a linked socket group (white sockets fit any gem)
+ */
+function findColourMismatches(gems: SkillGem[], sockets: SocketColour[]): string[] {
+  const needed: Record<string, number> = { R: 0, G: 0, B: 0 };
+  for (const gem of gems) {
+    const colour = findGemColour(gem.name);
+    if (colour && colour in needed) {
+      needed[colour]++;
+    }
+  }
+
+  const available: Record<string, number> = { R: 0, G: 0, B: 0 };
+  let white = 0;
+  for (const socket of sockets) {
+    if (socket === "W") {
+      white++;
+    } else if (socket in available) {
+      available[socket]++;
+    }
+  }
+
+  const missing = Object.keys(needed).filter((colour) => needed[colour] > available[colour]);
+  const shortfall = missing.reduce((sum, colour) => sum + needed[colour] - available[colour], 0);
+  if (shortfall <= white) {
+    return [];
+  }
+
+  return missing.map(
+    (colour) =>
+      `Needs ${needed[colour]} ${COLOUR_NAMES[colour]} socket${needed[colour] === 1 ? "" : "s"}, linked group has ${available[colour]}${white > 0 ? ` (+${white} white)` : ""}`
+  );
+}
@@ -1,17 +1,154 @@
 /**
  * Stats Parser
  *
- * Extracts explicit stats from the <Stats> section or marks as estimated/missing
+ * Extracts PoB's calculated stats (<Build><PlayerStat/><MinionStat/>) or marks as estimated/missing
  */
 
-import type { Stat } from "../models/build.js";
+import type { RawStat, Stat } from "../models/build.js";
 
 /**
- * Parses stats data from PoB Stats section
- * @param statsSection - PoB <Stats> section
+ * PoB stat keys mapped onto the stat names used by the analyzers
+ *
+ * Analyzers match stat names by substring and keep the last match, so entries
+ * sharing a word ("Life Regeneration", "Life") are ordered with the pool last.
+ * Entries with a convert function change PoB's unit (e.g. 1.32 multiplier -> 32%).
+ */
+const STAT_MAPPINGS: Array<{ key: string; name: string; convert?: (value: number) => number }> = [
+  // Damage (the first DPS stat is used as the build's DPS)
+  { key: "CombinedDPS", name: "Combined DPS" },
+  { key: "TotalDPS", name: "Total DPS" },
+  { key: "TotalDot", name: "Damage over Time DPS" },
+  { key: "AverageHit", name: "Average Hit" },
+  { key: "Speed", name: "Skill Uses per Second" },
+  { key: "CritChance", name: "Critical Strike Chance" },
+  { key: "CritMultiplier", name: "Critical Strike Multiplier", convert: (value) => value * 100 },
+
+  // Recovery
+  { key: "LifeRegen", name: "Life Regeneration" },
+  { key: "LifeLeechGainRate", name: "Life Leech Rate" },
+  { key: "EnergyShieldRegen", name: "Energy Shield Regeneration" },
+  { key: "EnergyShieldLeechGainRate", name: "Energy Shield Leech Rate" },
+  { key: "ManaRegen", name: "Mana Regeneration" },
+
+  // Reservation (before the pools, which share their words)
+  { key: "LifeReserved", name: "Reserved Life" },
+  { key: "LifeReservedPercent", name: "Reserved Life Percent" },
+  { key: "LifeUnreserved", name: "Unreserved Life" },
+  { key: "LifeUnreservedPercent", name: "Unreserved Life Percent" },
+  { key: "ManaReserved", name: "Reserved Mana" },
+  { key: "ManaReservedPercent", name: "Reserved Mana Percent" },
+  { key: "ManaUnreserved", name: "Unreserved Mana" },
+  { key: "ManaUnreservedPercent", name: "Unreserved Mana Percent" },
+
+  // Pools
+  { key: "Life", name: "Life" },
+  { key: "EnergyShield", name: "Energy Shield" },
+  { key: "Mana", name: "Mana" },
+  { key: "Ward", name: "Ward" },
+
+  // Mitigation
+  { key: "Armour", name: "Armour" },
+  { key: "Evasion", name: "Evasion Rating" },
+  { key: "BlockChance", name: "Block Chance" },
+  { key: "SpellBlockChance", name: "Spell Block Chance" },
+  { key: "SpellSuppressionChance", name: "Spell Suppression Chance" },
+  { key: "FireResist", name: "Fire Resistance" },
+  { key: "ColdResist", name: "Cold Resistance" },
+  { key: "LightningResist", name: "Lightning Resistance" },
+  { key: "ChaosResist", name: "Chaos Resistance" },
+
+  // Utility
+  {
+    key: "EffectiveMovementSpeedMod",
+    name: "Movement Speed",
+    convert: (value) => Math.round((value - 1) * 1000) / 10,
+  },
+];
+
+/**
+ * Parses the player's calculated stats from PoB Build section
+ * @param buildSection - PoB <Build> section (holds <PlayerStat stat value/> entries)
+ * @param statsSection - Legacy <Stats> section (used when no PlayerStat entries exist)
  * @returns Array of Stat entities
  */
-export function parseStats(statsSection: any): Stat[] {
+export function parseStats(buildSection: any, statsSection?: any): Stat[] {
+  const playerStats = readStatEntries(buildSection?.PlayerStat);
+
+  if (playerStats.size > 0) {
+    return mapStats(playerStats);
+  }
+
+  return parseLegacyStats(statsSection);
+}
+
+/**
+ * Parses minion stats from PoB Build section
+ * @param buildSection - PoB <Build> section (holds <MinionStat stat value/> entries)
+ * @returns Array of Stat entities (empty for builds without minions)
+ */
+export function parseMinionStats(buildSection: any): Stat[] {
+  return mapStats(readStatEntries(buildSection?.MinionStat));
+}
+
+/**
+ * Reads every <PlayerStat>/<MinionStat> entry, mapped or not
+ * @param entries - PoB <PlayerStat> or <MinionStat> elements
+ * @returns Raw stat entries in document order (non-numeric values such as "nan" are skipped)
+ */
+export function parseRawStats(entries: any): RawStat[] {
+  return [...readStatEntries(entries)].map(([stat, value]) => ({ stat, value }));
+}
+
+/**
+ * Reads <PlayerStat>/<MinionStat> entries into a key -> value map
+ */
+function readStatEntries(entries: any): Map<string, number> {
+  const values = new Map<string, number>();
+  if (!entries) {
+    return values;
+  }
+
+  const entryArray = Array.isArray(entries) ? entries : [entries];
+
+  entryArray.forEach((entry: any) => {
+    if (!entry || entry.stat === undefined) {
+      return;
+    }
+    // PoB writes "nan"/"inf" for undefined results
+    const value = typeof entry.value === "number" ? entry.value : parseFloat(String(entry.value));
+    if (Number.isFinite(value)) {
+      values.set(String(entry.stat), value);
+    }
+  });
+
+  return values;
+}
+
+/**
+ * Converts PoB stat keys into analyzer-facing stats (unmapped keys are only kept by parseRawStats)
+ */
+function mapStats(values: Map<string, number>): Stat[] {
+  const stats: Stat[] = [];
+
+  for (const mapping of STAT_MAPPINGS) {
+    const value = values.get(mapping.key);
+    if (value === undefined) {
+      continue;
+    }
+    stats.push({
+      name: mapping.name,
+      value: mapping.convert ? mapping.convert(value) : value,
+      source: "calculated",
+    });
+  }
+
+  return stats;
+}
+
+/**
+ * Parses the legacy <Stats><Stat value>Name</Stat></Stats> layout
+ */
+function parseLegacyStats(statsSection: any): Stat[] {
   if (!statsSection || !statsSection.Stat) {
     return getDefaultStats();
   }
@@ -42,7 +179,7 @@ function parseStatValue(value: any): number {
     }
   }
 
-  if (typeof value === "object" && value.$.value !== undefined) {
+  if (value && typeof value === "object" && value.$?.value !== undefined) {
     return parseFloat(value.$.value);
   }
 
@@ -50,7 +187,7 @@ function parseStatValue(value: any): number {
 }
 
 /**
- * Returns default stats when Stats section is missing
+ * Returns default stats when no stats are stored in the build
  */
 function getDefaultStats(): Stat[] {
   return [
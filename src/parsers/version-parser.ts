@@ -0,0 +1,147 @@
+/**
+ * Version Parser
+ *
+ * Detects the game (PoE 1 / PoE 2), PoB version and game version of a build
+ * and checks them against the compatibility matrix
+ */
+
+import type { GameType, VersionInfo, VersionStatus } from "../models/version.js";
+import {
+  UNSUPPORTED_TARGET_VERSIONS,
+  VERSION_COMPATIBILITY,
+} from "../data/version-compatibility.js";
+import {
+  compareVersions,
+  formatReleaseVersion,
+  isNewerRelease,
+  parseVersion,
+  type ParsedVersion,
+} from "../utils/version.js";
+import { ErrorCode, PoBParsingError } from "../utils/error-handler.js";
+import { getActiveSpecElement } from "./passive-parser.js";
+
+/**
+ * Detects version information and validates it
+ * Versions older than the matrix allows are rejected; newer ones only add a warning
+ * @param pobXML - Root <PathOfBuilding> object
+ * @returns VersionInfo entity
+ * @throws PoBParsingError (UNSUPPORTED_VERSION) for builds older than the supported range
+ */
+export function validatePoBVersion(pobXML: any): VersionInfo {
+  const pobVersion = readVersionString(pobXML?.version);
+  const targetVersion = readVersionString(pobXML?.Build?.targetVersion);
+  const treeVersion = readTreeVersion(pobXML?.Tree);
+
+  if (targetVersion && UNSUPPORTED_TARGET_VERSIONS.includes(targetVersion)) {
+    throw new PoBParsingError(
+      ErrorCode.UNSUPPORTED_VERSION,
+      `PoB target version ${targetVersion} is not supported`,
+      "Re-import the build into a current Path of Building release"
+    );
+  }
+
+  const parsedPoB = parseVersion(pobVersion);
+  const parsedTree = parseVersion(treeVersion);
+  const warnings: string[] = [];
+
+  const game = detectGame(targetVersion, parsedTree, parsedPoB);
+  if (!game) {
+    warnings.push("Could not determine the game from the build; assuming Path of Exile");
+  }
+
+  const compatibility = VERSION_COMPATIBILITY[game ?? "poe1"];
+  let status: VersionStatus = pobVersion || treeVersion ? "supported" : "unknown";
+
+  if (pobVersion && !parsedPoB) {
+    warnings.push(`Unrecognised PoB version "${pobVersion}"`);
+  }
+
+  if (parsedPoB) {
+    if (compareVersions(parsedPoB, compatibility.minPoBVersion) < 0) {
+      throw new PoBParsingError(
+        ErrorCode.UNSUPPORTED_VERSION,
+        `PoB version ${pobVersion} is not supported (minimum: ${compatibility.minPoBVersion})`
+      );
+    }
+    if (isNewerRelease(parsedPoB, parseVersion(compatibility.latestPoBVersion)!)) {
+      status = "newer";
+      warnings.push(
+        `PoB version ${pobVersion} is newer than the latest checked release (${compatibility.latestPoBVersion}); some data may be missed`
+      );
+    }
+  }
+
+  if (parsedTree) {
+    const gameVersion = formatReleaseVersion(parsedTree);
+    if (compareVersions(parsedTree, compatibility.minGameVersion) < 0) {
+      throw new PoBParsingError(
+        ErrorCode.UNSUPPORTED_VERSION,
+        `${compatibility.label} ${gameVersion} builds are not supported (minimum: ${compatibility.minGameVersion})`
+      );
+    }
+    if (isNewerRelease(parsedTree, parseVersion(compatibility.latestGameVersion)!)) {
+      status = "newer";
+      warnings.push(
+        `${compatibility.label} ${gameVersion} is newer than the latest checked version (${compatibility.latestGameVersion}); new mechanics may not be analysed`
+      );
+    }
+  } else {
+    warnings.push("Build has no passive tree version; game version is unknown");
+  }
+
+  warnings.push(...compatibility.limitations);
+
+  return {
+    game: compatibility.game,
+    pobVersion,
+    targetVersion,
+    treeVersion,
+    gameVersion: parsedTree ? formatReleaseVersion(parsedTree) : null,
+    status,
+    warnings,
+  };
+}
+
+/**
+ * Detects the game: tree version first (PoE 2 trees are 0.x), then the
+ * target version, then the PoB version (PoE 2's PoB is 0.x)
+ */
+function detectGame(
+  targetVersion: string | null,
+  treeVersion: ParsedVersion | null,
+  pobVersion: ParsedVersion | null
+): GameType | null {
+  if (treeVersion) {
+    return treeVersion.major === 0 ? "poe2" : "poe1";
+  }
+
+  for (const compatibility of Object.values(VERSION_COMPATIBILITY)) {
+    if (targetVersion && compatibility.targetVersions.includes(targetVersion)) {
+      return compatibility.game;
+    }
+  }
+
+  if (pobVersion) {
+    return pobVersion.major === 0 ? "poe2" : "poe1";
+  }
+
+  return null;
+}
+
+/**
+ * Reads the tree version of the active spec (falls back to the <Tree> version)
+ */
+function readTreeVersion(treeSection: any): string | null {
+  const activeSpec = getActiveSpecElement(treeSection);
+  return readVersionString(activeSpec?.treeVersion) ?? readVersionString(treeSection?.version);
+}
+
+/**
+ * Reads a version attribute as a string (null when missing or empty)
+ */
+function readVersionString(value: any): string | null {
+  if (value === undefined || value === null || String(value).trim() === "") {
+    return null;
+  }
+  return String(value).trim();
+}
@@ -0,0 +1,501 @@
+/**
+ * PoB XML Serializer
+ *
+ * Turns a ParsedBuild back into PoB XML, compresses it with zlib and base64url-encodes it
+ * (the reverse of parsePoBXML)
+ */
+
+import { XMLBuilder } from "fast-xml-parser";
+import { deflateSync } from "zlib";
+import type { ParsedBuild, RawStat, SkillSet, SkillSetup } from "../models/build.js";
+import type { Affix, GearSlot, ItemSet } from "../models/gear.js";
+import type { Jewel } from "../models/jewel.js";
+import type { BuildNotes } from "../models/notes.js";
+import type { PassiveSpec } from "../models/passive-tree.js";
+import type { BuildConfig } from "../models/config.js";
+import { normalizeTreeVersion } from "../data/passive-tree-data.js";
+import { encodePassiveTreeUrl } from "../utils/passive-tree-url.js";
+import { ErrorCode, PoBParsingError } from "../utils/error-handler.js";
+import { parseGearSlot } from "../parsers/gear-parser.js";
+import { parseNotes } from "../parsers/notes-parser.js";
+import { parseItemText } from "../parsers/item-text-parser.js";
+
+/**
+ * PoB's target version attribute for PoE 1 builds (used when the build did not record one)
+ */
+const POE1_TARGET_VERSION = "3_0";
+
+/**
+ * Stand-in for newlines in attribute values, written out as "&#10;" like PoB does
+ * (the builder would escape a literal "&#10;" as "&amp;#10;")
+ */
+const ATTRIBUTE_NEWLINE = "\uE000";
+
+/**
+ * Influence names written back as "<Influence> Item" lines
+ */
+const INFLUENCE_LINES: Record<string, string> = {
+  Shaper: "Shaper Item",
+  Elder: "Elder Item",
+  Crusader: "Crusader Item",
+  Redeemer: "Redeemer Item",
+  Hunter: "Hunter Item",
+  Warlord: "Warlord Item",
+  "Searing Exarch": "Searing Exarch Item",
+  "Eater of Worlds": "Eater of Worlds Item",
+};
+
+/**
+ * Item header properties rebuilt from the parsed fields, or dropped along with the
+ * unselected variant lines when an edited item is rebuilt
+ */
+const REBUILT_PROPERTIES = new Set([
+  "Item Class",
+  "Item Level",
+  "Quality",
+  "Sockets",
+  "Implicits",
+  "Cluster Jewel Skill",
+  "Cluster Jewel Node Count",
+  "Variant",
+  "Selected Variant",
+  "Has Alt Variant",
+  "Has Alt Variant Two",
+  "Selected Alt Variant",
+  "Selected Alt Variant Two",
+]);
+
+/**
+ * Assigns item IDs, sharing one ID between identical items across sets and specs
+ */
+class ItemRegistry {
+  private idsByText = new Map<string, number>();
+
+  /**
+   * Returns the item ID for an item, registering it on first use
+   */
+  register(gear: GearSlot): number {
+    const text = buildItemText(gear);
+    const existing = this.idsByText.get(text);
+    if (existing !== undefined) {
+      return existing;
+    }
+    const id = this.idsByText.size + 1;
+    this.idsByText.set(text, id);
+    return id;
+  }
+
+  /**
+   * Lists the registered items as <Item> elements
+   */
+  toElements(): any[] {
+    return Array.from(this.idsByText.entries()).map(([text, id]) => ({
+      "@_id": id,
+      "#text": text,
+    }));
+  }
+}
+
+/**
+ * Serializes a parsed build to PoB XML
+ * Unchanged items and notes are written as PoB stored them; edited ones are rebuilt
+ * @param build - Parsed build (all item sets, tree specs and skill sets are written)
+ * @returns PoB XML document
+ */
+export function serializePoBXML(build: ParsedBuild): string {
+  const registry = new ItemRegistry();
+
+  const skillSets = build.skillSets?.length
+    ? build.skillSets
+    : [{ id: "1", title: "Default", active: true, skills: build.skills }];
+  const activeSkillSet = skillSets.find((set) => set.active) || skillSets[0];
+
+  // Tree specs are serialized before items so jewels get their IDs registered
+  const tree = buildTreeElement(build.passiveSpecs || [], registry);
+  const items = buildItemsElement(build, registry);
+
+  const root: any = {
+    "@_version": build.version && build.version !== "unknown" ? build.version : undefined,
+    Build: buildBuildElement(build, activeSkillSet?.skills || []),
+    Skills: {
+      "@_activeSkillSet": activeSkillSet?.id ?? "1",
+      SkillSet: skillSets.map(buildSkillSetElement),
+    },
+    Tree: tree,
+    Stats: buildLegacyStatsElement(build),
+    Notes: buildNotesText(build.notes),
+    Items: items,
+    Config: buildConfigElement(build.config),
+  };
+
+  const builder = new XMLBuilder({
+    ignoreAttributes: false,
+    attributeNamePrefix: "@_",
+    textNodeName: "#text",
+    format: true,
+    suppressBooleanAttributes: false,
+    suppressEmptyNode: true,
+    attributeValueProcessor: (_name: string, value: unknown) =>
+      String(value).replace(/\r?\n/g, ATTRIBUTE_NEWLINE),
+  });
+
+  return builder
+    .build({
+      "?xml": { "@_version": "1.0", "@_encoding": "UTF-8" },
+      PathOfBuilding: root,
+    })
+    .replaceAll(ATTRIBUTE_NEWLINE, "&#10;");
+}
+
+/**
+ * Encodes a parsed build as a PoB build code
+ * @param build - Parsed build
+ * @returns zlib-compressed, base64url-encoded PoB XML (importable into PoB)
+ * @throws PoBParsingError if the build cannot be serialized
+ */
+export function encodeBuildCode(build: ParsedBuild): string {
+  let xml: string;
+  try {
+    xml = serializePoBXML(build);
+  } catch (error) {
+    if (error instanceof PoBParsingError) {
+      throw error;
+    }
+    throw new PoBParsingError(
+      ErrorCode.INVALID_XML,
+      "Failed to serialize build",
+      error instanceof Error ? error.message : String(error)
+    );
+  }
+
+  // PoB exports use the URL-safe alphabet
+  return deflateSync(Buffer.from(xml, "utf-8"))
+    .toString("base64")
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_");
+}
+
+/**
+ * Builds the <Build> element (character, main socket group, bandit and pantheon)
+ */
+function buildBuildElement(build: ParsedBuild, activeSkills: SkillSetup[]): any {
+  const mainIndex = activeSkills.findIndex((skill) => skill.isMainSkill);
+  const { character } = build;
+
+  // Bandits and the pantheon only exist in PoE 1
+  const isPoE1 = build.versionInfo?.game !== "poe2";
+
+  return {
+    "@_level": character.level,
+    "@_className": character.class,
+    "@_ascendClassName": character.ascendancy || "None",
+    "@_targetVersion": build.versionInfo?.targetVersion || POE1_TARGET_VERSION,
+    "@_mainSocketGroup": mainIndex >= 0 ? mainIndex + 1 : 1,
+    "@_bandit": isPoE1 ? character.bandit || "None" : undefined,
+    "@_pantheonMajorGod": isPoE1 ? character.pantheonMajorGod || "None" : undefined,
+    "@_pantheonMinorGod": isPoE1 ? character.pantheonMinorGod || "None" : undefined,
+    "@_viewMode": character.viewMode || undefined,
+    ...buildStatElements(build),
+  };
+}
+
+/**
+ * Builds the <PlayerStat>/<MinionStat> elements from the raw PoB stat entries
+ * @throws PoBParsingError if the build has calculated stats without their raw entries
+ */
+function buildStatElements(build: ParsedBuild): { PlayerStat: any[]; MinionStat: any[] } {
+  const rawStats = build.rawStats || [];
+  const rawMinionStats = build.rawMinionStats || [];
+
+  // Mapped stats are converted (e.g. movement speed), so only the raw entries can be written
+  const missing = [
+    ...(rawStats.length === 0 ? build.stats || [] : []),
+    ...(rawMinionStats.length === 0 ? build.minionStats || [] : []),
+  ].filter((stat) => stat.source === "calculated");
+  if (missing.length > 0) {
+    throw new PoBParsingError(
+      ErrorCode.MISSING_REQUIRED_FIELD,
+      "Build has calculated stats without rawStats/rawMinionStats",
+      `Stats that cannot be written: ${missing.map((stat) => stat.name).join(", ")}`
+    );
+  }
+
+  const toElement = ({ stat, value }: RawStat) => ({ "@_stat": stat, "@_value": value });
+  return {
+    PlayerStat: rawStats.map(toElement),
+    MinionStat: rawMinionStats.map(toElement),
+  };
+}
+
+/**
+ * Builds the legacy <Stats> section for builds whose stats came from it
+ */
+function buildLegacyStatsElement(build: ParsedBuild): any {
+  const explicitStats = (build.stats || []).filter((stat) => stat.source === "explicit");
+  if (explicitStats.length === 0) {
+    return undefined;
+  }
+
+  return {
+    Stat: explicitStats.map((stat) => ({ "@_value": stat.value, "#text": stat.name })),
+  };
+}
+
+/**
+ * Builds a <SkillSet> element
+ */
+function buildSkillSetElement(skillSet: SkillSet): any {
+  return {
+    "@_id": skillSet.id,
+    "@_title": skillSet.title,
+    Skill: skillSet.skills.map((skill) => ({
+      "@_slot": skill.slot || undefined,
+      "@_source": skill.source || undefined,
+      "@_label": skill.label || "",
+      "@_enabled": skill.enabled ?? true,
+      "@_includeInFullDPS": skill.includeInFullDPS ?? false,
+      "@_mainActiveSkill": skill.mainActiveSkill ?? 1,
+      Gem: (skill.gems?.length ? skill.gems : legacyGems(skill)).map((gem) => ({
+        "@_nameSpec": gem.name,
+        "@_skillId": gem.skillId || undefined,
+        "@_gemId": gem.gemId || undefined,
+        "@_enabled": gem.enabled,
+        "@_level": gem.level,
+        "@_quality": gem.quality,
+        "@_qualityId": gem.qualityId,
+      })),
+    })),
+  };
+}
+
+/**
+ * Rebuilds a gem list for skills parsed without <Gem> details
+ */
+function legacyGems(skill: SkillSetup) {
+  return [
+    { name: skill.skillName, level: skill.gemLevel, quality: skill.quality },
+    ...skill.supports.map((support) => ({
+      name: support.name,
+      level: support.gemLevel,
+      quality: support.quality,
+    })),
+  ].map((gem) => ({
+    ...gem,
+    skillId: null,
+    gemId: null,
+    enabled: true,
+    qualityId: "Default",
+  }));
+}
+
+/**
+ * Builds the <Tree> element with one <Spec> per passive tree spec
+ */
+function buildTreeElement(specs: PassiveSpec[], registry: ItemRegistry): any {
+  const activeIndex = specs.findIndex((spec) => spec.active);
+
+  return {
+    "@_activeSpec": activeIndex >= 0 ? activeIndex + 1 : 1,
+    Spec: specs.map((spec) => ({
+      "@_title": spec.title,
+      "@_treeVersion":
+        spec.version && spec.version !== "unknown" ? normalizeTreeVersion(spec.version) : undefined,
+      "@_classId": spec.classId,
+      "@_ascendClassId": spec.ascendClassId,
+      "@_nodes": spec.nodes.join(","),
+      "@_masteryEffects": spec.masteryEffects
+        .map((mastery) => `{${mastery.nodeId},${mastery.effectId}}`)
+        .join(","),
+      URL: encodePassiveTreeUrl({
+        classId: spec.classId,
+        ascendClassId: spec.ascendClassId,
+        secondaryAscendClassId: 0,
+        nodes: spec.nodes,
+        clusterNodes: [],
+        masteryEffects: spec.masteryEffects,
+      }),
+      Sockets: {
+        Socket: (spec.jewels || []).map((jewel) => ({
+          "@_nodeId": jewel.socketNodeId,
+          "@_itemId": registry.register(jewel),
+        })),
+      },
+    })),
+  };
+}
+
+/**
+ * Builds the <Items> element with every item set
+ */
+function buildItemsElement(build: ParsedBuild, registry: ItemRegistry): any {
+  const itemSets: ItemSet[] = build.itemSets?.length
+    ? build.itemSets
+    : [{ id: "1", title: "Default", active: true, gear: build.gear }];
+  const activeSet = itemSets.find((set) => set.active) || itemSets[0];
+
+  const setElements = itemSets.map((set) => ({
+    "@_id": set.id,
+    "@_title": set.title,
+    Slot: set.gear
+      .filter((gear) => !isEmptySlot(gear) && !/^Jewel\d+$/.test(gear.slot))
+      .map((gear) => ({
+        "@_name": toPoBSlotName(gear.slot),
+        "@_itemId": registry.register(gear),
+      })),
+  }));
+
+  return {
+    "@_activeItemSet": activeSet?.id ?? "1",
+    "@_useSecondWeaponSet": build.character.activeWeaponSet === 2,
+    Item: registry.toElements(),
+    ItemSet: setElements,
+  };
+}
+
+/**
+ * Builds the <Config> element from the parsed inputs
+ */
+function buildConfigElement(config: BuildConfig | undefined): any {
+  // The attribute name carries the input type (<Input name="x" boolean="true"/>)
+  const inputs = Object.entries(config?.inputs || {}).map(([name, value]) => ({
+    "@_name": name,
+    [`@_${typeof value === "boolean" || typeof value === "number" ? typeof value : "string"}`]: value,
+  }));
+
+  // Builds from before config sets keep their inputs directly under <Config>
+  if (!config?.setId) {
+    return { Input: inputs };
+  }
+
+  return {
+    "@_activeConfigSet": config.setId,
+    ConfigSet: {
+      "@_id": config.setId,
+      "@_title": config.title ?? undefined,
+      Input: inputs,
+    },
+  };
+}
+
+/**
+ * Returns the notes as PoB stored them (colour codes included) unless the text was edited
+ */
+function buildNotesText(notes: BuildNotes | null | undefined): string {
+  if (!notes) {
+    return "";
+  }
+
+  if (notes.raw && parseNotes(notes.raw)?.text === notes.text) {
+    return notes.raw;
+  }
+  return notes.text;
+}
+
+/**
+ * Returns the PoB item text for a gear slot: the stored text while the item is unchanged
+ * (keeping variants and properties the model does not hold), otherwise rebuilt text
+ */
+function buildItemText(gear: GearSlot): string {
+  const cluster = (gear as Partial<Jewel>).cluster;
+  const rebuilt = rebuildItemText(gear, cluster);
+  if (!gear.rawText) {
+    return rebuilt;
+  }
+
+  const original = parseGearSlot(gear.rawText, gear.slot);
+  if (original && rebuildItemText(original, cluster) === rebuilt) {
+    return gear.rawText;
+  }
+
+  // Keep the stored properties the model does not hold (Unique ID, LevelReq, ...)
+  const properties = Object.entries(parseItemText(gear.rawText).properties)
+    .filter(([key]) => !REBUILT_PROPERTIES.has(key))
+    .map(([key, value]) => `${key}: ${value}`);
+  return rebuildItemText(gear, cluster, properties);
+}
+
+/**
+ * Rebuilds the PoB item text from the parsed fields of a gear slot
+ */
+function rebuildItemText(
+  gear: GearSlot,
+  cluster: Jewel["cluster"] | undefined,
+  properties: string[] = []
+): string {
+  const rarity = gear.rarity || "NORMAL";
+  const lines = [`Rarity: ${rarity}`, gear.itemName];
+
+  // Rare and unique items have a separate base type line
+  if (rarity === "RARE" || rarity === "UNIQUE" || rarity === "RELIC") {
+    lines.push(gear.baseType || gear.itemName);
+  }
+
+  for (const influence of gear.influences) {
+    if (INFLUENCE_LINES[influence]) {
+      lines.push(INFLUENCE_LINES[influence]);
+    }
+  }
+  if (gear.flags.fractured) lines.push("Fractured Item");
+  if (gear.flags.synthesised) lines.push("Synthesised Item");
+  if (gear.itemLevel !== null) lines.push(`Item Level: ${gear.itemLevel}`);
+  if (gear.quality > 0) lines.push(`Quality: ${gear.quality}`);
+  if (gear.sockets) lines.push(`Sockets: ${gear.sockets.text}`);
+  lines.push(...properties);
+
+  // Cluster jewels need their skill and node count to build the subgraph
+  if (cluster?.skill) lines.push(`Cluster Jewel Skill: ${cluster.skill}`);
+  if (cluster?.passiveCount) lines.push(`Cluster Jewel Node Count: ${cluster.passiveCount}`);
+
+  const implicits = gear.affixes.filter((affix) => affix.type !== "explicit");
+  const explicits = gear.affixes.filter((affix) => affix.type === "explicit");
+
+  lines.push(`Implicits: ${implicits.length}`);
+  lines.push(...implicits.map((affix) => buildModTags(affix) + affix.text));
+  lines.push(...explicits.map((affix) => buildModTags(affix) + affix.text));
+
+  if (gear.flags.unidentified) lines.push("Unidentified");
+  if (gear.flags.split) lines.push("Split");
+  if (gear.flags.mirrored) lines.push("Mirrored");
+  if (gear.corrupted) lines.push("Corrupted");
+
+  return lines.join("\n");
+}
+
+/**
+ * Rebuilds the PoB tags marking a mod's origin ("{crafted}", "{exarch}", ...)
+ */
+function buildModTags(affix: Affix): string {
+  const flags = affix.flags;
+  if (!flags) {
+    return "";
+  }
+
+  let tags = "";
+  if (affix.rangePosition !== null && affix.rangePosition !== undefined) {
+    tags += `{range:${affix.rangePosition}}`;
+  }
+  if (flags.enchant) tags += "{enchant}";
+  if (flags.crafted) tags += "{crafted}";
+  if (flags.fractured) tags += "{fractured}";
+  if (flags.synthesised) tags += "{synthesis}";
+  if (flags.eldritch === "Searing Exarch") tags += "{exarch}";
+  if (flags.eldritch === "Eater of Worlds") tags += "{eater}";
+  return tags;
+}
+
+/**
+ * Checks whether a gear slot is a placeholder for an empty slot
+ */
+function isEmptySlot(gear: GearSlot): boolean {
+  return !gear.baseType && gear.affixes.length === 0;
+}
+
+/**
+ * Converts a GearSlotType back to a PoB slot name
+ * ("BodyArmour" -> "Body Armour", "Weapon1SwapAbyssalSocket1" -> "Weapon 1 Swap Abyssal Socket 1")
+ */
+function toPoBSlotName(slot: string): string {
+  return slot
+    .replace(/([a-z])([A-Z0-9])/g, "$1 $2")
+    .replace(/(\d)([A-Z])/g, "$1 $2");
+}
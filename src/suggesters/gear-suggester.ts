@@ -6,6 +6,7 @@
 import type { ParsedBuild } from "../models/build.js";
 import type { BuildAnalysis } from "../models/analysis.js";
 import type { Suggestion } from "../models/analysis.js";
+import { getAffixStats, hasAffixStat } from "../utils/affix-stats.js";
 
 /**
  * Gear slot priorities for defensive upgrades
@@ -275,11 +276,9 @@ function checkJewelryUpgrades(build: ParsedBuild): Suggestion[] {
   ] as const) {
     if (!ring) continue;
 
-    const hasHighLife = ring.affixes?.some((a: any) =>
-      a.text.match(/\+([7-9][0-9]|1[0-9][0-9]) to maximum life/i)
-    );
-    const hasHighResist = ring.affixes?.some((a: any) =>
-      a.text.match(/\+([3-9][0-9])% to (fire|cold|lightning) resistance/i)
+    const hasHighLife = hasAffixStat(ring, "maximum_life", 70);
+    const hasHighResist = ["fire_resistance", "cold_resistance", "lightning_resistance"].some(
+      (statId) => hasAffixStat(ring, statId, 30)
     );
 
     if (!hasHighLife || !hasHighResist) {
@@ -296,8 +295,8 @@ function checkJewelryUpgrades(build: ParsedBuild): Suggestion[] {
   // Check amulet
   const amulet = build.gear.find((g: any) => g.slot === "Amulet");
   if (amulet) {
-    const hasDamage = amulet.affixes?.some((a: any) =>
-      a.text.toLowerCase().includes("damage") || a.text.toLowerCase().includes("penetration")
+    const hasDamage = getAffixStats([amulet]).some(
+      (stat) => stat.id.includes("damage") || stat.id.includes("penetration")
     );
 
     if (!hasDamage) {
@@ -314,6 +313,61 @@ function checkJewelryUpgrades(build: ParsedBuild): Suggestion[] {
   return suggestions;
 }
 
+/**
+ * Check for open prefixes/suffixes that a bench craft can fill
+ * Corrupted and mirrored items, and items that already carry a crafted mod, are skipped
+ */
+function checkOpenAffixes(build: ParsedBuild): Suggestion[] {
+  const suggestions: Suggestion[] = [];
+
+  // Only PoB's calculated stats are trusted; missing ones (including the 0% defaults of
+  // builds without calculated stats) count as capped so they get no craft advice
+  const resistances: Record<string, number> = { Fire: 75, Cold: 75, Lightning: 75 };
+  let life = 0;
+  for (const stat of build.stats.filter((entry) => entry.source === "calculated")) {
+    const statNameLower = stat.name.toLowerCase();
+    for (const element of Object.keys(resistances)) {
+      if (statNameLower.includes(`${element.toLowerCase()} resist`)) resistances[element] = stat.value;
+    }
+    if (statNameLower === "life" || statNameLower === "maximum life") life = stat.value;
+  }
+  const [element, lowestResist] = Object.entries(resistances).sort((a, b) => a[1] - b[1])[0];
+
+  const hasCI = build.passives?.keystones?.some((k: any) =>
+    k.name?.toLowerCase().includes("chaos inoculation")
+  );
+
+  for (const slot of SLOT_PRIORITY) {
+    const gear = build.gear.find((g) => g.slot === slot);
+    const affixSlots = gear?.affixSlots;
+    if (!gear || !affixSlots || affixSlots.hasCraftedMod || gear.corrupted || gear.flags.mirrored) {
+      continue;
+    }
+
+    const slotName = slot.replace(/([a-z])([A-Z0-9])/g, "$1 $2");
+
+    if (lowestResist < 75 && affixSlots.openSuffixes > 0) {
+      suggestions.push({
+        category: "gear",
+        priority: "important",
+        description: `Open suffix on your ${slotName}: bench-craft ${element.toLowerCase()} resistance`,
+        specificAction: `Craft "+#% to ${element} Resistance" on ${gear.itemName} at the crafting bench`,
+        expectedImpact: `Raises ${element.toLowerCase()} resistance (${lowestResist}%) toward the 75% cap without replacing the item`,
+      });
+    } else if (!hasCI && life > 0 && life < 5000 && affixSlots.openPrefixes > 0) {
+      suggestions.push({
+        category: "gear",
+        priority: "important",
+        description: `Open prefix on your ${slotName}: bench-craft maximum life`,
+        specificAction: `Craft "+# to maximum Life" on ${gear.itemName} at the crafting bench`,
+        expectedImpact: "Adds life without replacing the item",
+      });
+    }
+  }
+
+  return suggestions;
+}
+
 /**
  * Generate all gear-related suggestions
  */
@@ -329,6 +383,9 @@ export function suggestGearImprovements(
   // Check for resistance capping
   suggestions.push(...checkResistanceGear(build, analysis));
 
+  // Check for open affixes to bench-craft
+  suggestions.push(...checkOpenAffixes(build));
+
   // Check for life/ES upgrades
   suggestions.push(...checkLifeESGear(build, analysis));
 
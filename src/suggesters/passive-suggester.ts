@@ -56,7 +56,9 @@ function checkInefficientPathing(build: ParsedBuild): Suggestion[] {
   // Simple heuristic: if passive points > 90 and no notable clusters nearby
   // This is a basic check - full implementation would analyze tree graph structure
   if (build.passives?.totalPoints && build.passives.totalPoints > 90) {
-    const notableCount = build.passives.notables?.length || 0;
+    // Mastery selections are worth as much as a notable
+    const notableCount =
+      (build.passives.notables?.length || 0) + (build.passives.masteries?.length || 0);
 
     if (notableCount < 8) {
       suggestions.push({
@@ -178,6 +180,33 @@ function checkMissingKeystones(build: ParsedBuild, analysis: BuildAnalysis): Sug
   return suggestions;
 }
 
+/**
+ * Check for a missing amulet anoint
+ */
+function checkAnoint(build: ParsedBuild, analysis: BuildAnalysis): Suggestion[] {
+  const suggestions: Suggestion[] = [];
+
+  const amulet = build.gear.find((g) => g.slot === "Amulet");
+  if (!amulet || amulet.itemName === "Empty" || (build.passives?.anoints?.length || 0) > 0) {
+    return suggestions;
+  }
+
+  const isDefensiveFocus =
+    analysis.defensiveRating === "glass_cannon" || analysis.defensiveRating === "moderate";
+
+  suggestions.push({
+    category: "passives",
+    priority: "optional",
+    description: `Anoint ${amulet.itemName} with a notable`,
+    specificAction: isDefensiveFocus
+      ? "Use Blight oils to anoint a defensive notable that is far from your tree (e.g., a life or resistance notable)"
+      : "Use Blight oils to anoint a damage notable that is far from your tree",
+    expectedImpact: "Grants a notable passive without spending points on pathing",
+  });
+
+  return suggestions;
+}
+
 /**
  * Check for offensive upgrades
  */
@@ -231,6 +260,9 @@ export function suggestPassiveImprovements(
   // Check for missing keystones
   suggestions.push(...checkMissingKeystones(build, analysis));
 
+  // Check for a missing amulet anoint
+  suggestions.push(...checkAnoint(build, analysis));
+
   // Check for offensive upgrades
   suggestions.push(...checkOffensiveUpgrades(build, analysis));
 
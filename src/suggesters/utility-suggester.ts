@@ -1,11 +1,17 @@
 /**
  * Utility Suggester - Suggests utility improvements
- * Detects missing curses, guard skills, mobility options, and suggests appropriate additions
+ * Detects missing curses, guard skills, mobility options, bandit and pantheon choices,
+ * and suggests appropriate additions
  */
 
 import type { ParsedBuild } from "../models/build.js";
 import type { BuildAnalysis } from "../models/analysis.js";
 import type { Suggestion } from "../models/analysis.js";
+import {
+  findBanditReward,
+  findPantheonGod,
+  type PantheonGod,
+} from "../data/character-choices.js";
 
 /**
  * Common curse skills
@@ -357,6 +363,119 @@ function checkFlaskUpgrades(build: ParsedBuild, analysis: BuildAnalysis): Sugges
   return suggestions;
 }
 
+/**
+ * Reads a stat value by exact name
+ */
+function getStatValue(build: ParsedBuild, name: string): number | null {
+  const stat = build.stats.find((entry) => entry.name.toLowerCase() === name);
+  return stat ? stat.value : null;
+}
+
+/**
+ * Check the bandit choice against resistances and defenses (PoE 1)
+ */
+function checkBandit(build: ParsedBuild, analysis: BuildAnalysis): Suggestion[] {
+  const suggestions: Suggestion[] = [];
+  const bandit = build.character?.bandit;
+
+  if (!bandit || build.versionInfo?.game === "poe2") {
+    return suggestions;
+  }
+
+  const resists = ["fire resistance", "cold resistance", "lightning resistance"]
+    .map((name) => getStatValue(build, name))
+    .filter((value): value is number => value !== null);
+  const minResist = resists.length === 3 ? Math.min(...resists) : null;
+
+  // Alira's +15% closes small resistance gaps
+  if (bandit !== "Alira" && minResist !== null && minResist < 75 && minResist >= 60) {
+    suggestions.push({
+      category: "utility",
+      priority: "important",
+      description: "Help Alira to cap elemental resistances",
+      specificAction: `Switch bandit from ${bandit === "None" ? "killing all bandits" : bandit} to Alira (${findBanditReward("Alira")!.reward})`,
+      expectedImpact: `Raises the lowest elemental resistance from ${minResist}% to ${Math.min(75, minResist + 15)}%`,
+    });
+    return suggestions;
+  }
+
+  // Oak's life regeneration and physical reduction help fragile life builds
+  const life = getStatValue(build, "life") ?? 0;
+  const energyShield = getStatValue(build, "energy shield") ?? 0;
+  if (bandit !== "Oak" && analysis.defensiveRating === "glass_cannon" && life > energyShield) {
+    suggestions.push({
+      category: "utility",
+      priority: "optional",
+      description: "Help Oak for extra sustain and physical mitigation",
+      specificAction: `Switch bandit from ${bandit === "None" ? "killing all bandits" : bandit} to Oak (${findBanditReward("Oak")!.reward})`,
+      expectedImpact: "Adds life regeneration and physical damage reduction to a fragile build",
+    });
+  }
+
+  return suggestions;
+}
+
+/**
+ * Check pantheon choices and upgrades (PoE 1)
+ */
+function checkPantheon(build: ParsedBuild, analysis: BuildAnalysis): Suggestion[] {
+  const suggestions: Suggestion[] = [];
+
+  if (!build.character || build.versionInfo?.game === "poe2") {
+    return suggestions;
+  }
+
+  const major = findPantheonGod(build.character.pantheonMajorGod);
+  const minor = findPantheonGod(build.character.pantheonMinorGod);
+
+  if (!major) {
+    // Solaris for single targets, Lunaris for packs, Brine King otherwise (stun and freeze)
+    const suggested =
+      analysis.playstyleType === "boss"
+        ? findPantheonGod("Solaris")!
+        : analysis.playstyleType === "clear"
+          ? findPantheonGod("Lunaris")!
+          : findPantheonGod("TheBrineKing")!;
+    suggestions.push({
+      category: "utility",
+      priority: "important",
+      description: "Select a major pantheon power",
+      specificAction: `Select ${suggested.name} in the Pantheon panel`,
+      expectedImpact: suggested.effect,
+    });
+  }
+
+  if (!minor) {
+    const chaosResist = getStatValue(build, "chaos resistance");
+    const suggested =
+      chaosResist !== null && chaosResist < 0
+        ? findPantheonGod("Shakari")!
+        : findPantheonGod("Garukhan")!;
+    suggestions.push({
+      category: "utility",
+      priority: "optional",
+      description: "Select a minor pantheon power",
+      specificAction: `Select ${suggested.name} in the Pantheon panel`,
+      expectedImpact: suggested.effect,
+    });
+  }
+
+  // PoB does not record unlocked upgrades, so point out the souls worth capturing
+  for (const god of [major, minor].filter((entry): entry is PantheonGod => entry !== null)) {
+    for (const upgrade of god.upgrades) {
+      suggestions.push({
+        category: "utility",
+        priority: "optional",
+        description: `Upgrade ${god.name} if not unlocked yet`,
+        specificAction: `Use a Divine Vessel to obtain ${upgrade.soul}, then unlock the upgrade in the Pantheon panel`,
+        expectedImpact: upgrade.effect,
+      });
+    }
+  }
+
+  return suggestions;
+}
+
 /**
  * Generate all utility-related suggestions
  */
@@ -381,5 +500,9 @@ export function suggestUtilityImprovements(
   // Check for flask upgrades
   suggestions.push(...checkFlaskUpgrades(build, analysis));
 
+  // Check bandit and pantheon choices
+  suggestions.push(...checkBandit(build, analysis));
+  suggestions.push(...checkPantheon(build, analysis));
+
   return suggestions;
 }
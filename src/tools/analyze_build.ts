@@ -11,6 +11,16 @@ import { analyzeOffense } from "../analyzers/offensive-analyzer.js";
 import { detectPlaystyle } from "../analyzers/playstyle-detector.js";
 import { detectStrengths } from "../analyzers/strength-detector.js";
 import { detectWeaknesses } from "../analyzers/weakness-detector.js";
+import { analyzeAuthorGoals } from "../analyzers/goal-analyzer.js";
+import { analyzeSocketLinks } from "../analyzers/link-analyzer.js";
+import {
+  selectActiveWeaponSet,
+  selectItemSet,
+  selectSkillSet,
+  selectTreeSpec,
+} from "../utils/build-selection.js";
+import { wrapError } from "../utils/error-handler.js";
+import { sumAffixStat } from "../utils/affix-stats.js";
 
 /**
  * Tool input schema (matches contracts/analyze_build.json)
@@ -22,6 +32,21 @@ export const inputSchema = {
       type: "object",
       description: "Parsed build data from parse_pob_code tool",
     },
+    itemSet: {
+      type: "string",
+      description:
+        "Item set id or title to analyze (defaults to the gear already in the build)",
+    },
+    treeSpec: {
+      type: "string",
+      description:
+        "Passive tree spec number (1-based) or title to analyze (defaults to the passives already in the build)",
+    },
+    skillSet: {
+      type: "string",
+      description:
+        "Skill set id or title to analyze (defaults to the skills already in the build)",
+    },
   },
   required: ["build"],
 };
@@ -32,20 +57,12 @@ export const inputSchema = {
 function estimateMissingStats(build: ParsedBuild): ParsedBuild {
   const estimatedBuild = { ...build };
   const statNames = new Set(build.stats.map((s) => s.name.toLowerCase()));
+  // Socketed jewels contribute flat life/ES the same way gear does
+  const items = [...build.gear, ...(build.jewels || [])];
 
   // Estimate life if missing
   if (!statNames.has("life") && !statNames.has("maximum life")) {
-    let totalLife = 0;
-    for (const gear of build.gear) {
-      if (gear.affixes) {
-        for (const affix of gear.affixes) {
-          const match = affix.text.match(/(\d+)\s*to\s*maximum life/i);
-          if (match) {
-            totalLife += parseInt(match[1], 10);
-          }
-        }
-      }
-    }
+    const totalLife = sumAffixStat(items, "maximum_life");
     // Base life approximation by level
     const baseLife = 38 + build.character.level * 12;
     if (totalLife > 0) {
@@ -58,17 +75,7 @@ function estimateMissingStats(build: ParsedBuild): ParsedBuild {
 
   // Estimate ES if missing
   if (!statNames.has("energy shield") && !statNames.has("maximum energy shield")) {
-    let totalES = 0;
-    for (const gear of build.gear) {
-      if (gear.affixes) {
-        for (const affix of gear.affixes) {
-          const match = affix.text.match(/(\d+)\s*to\s*maximum energy shield/i);
-          if (match) {
-            totalES += parseInt(match[1], 10);
-          }
-        }
-      }
-    }
+    const totalES = sumAffixStat(items, "maximum_energy_shield");
     if (totalES > 0) {
       estimatedBuild.stats = [
         ...estimatedBuild.stats,
@@ -83,8 +90,30 @@ function estimateMissingStats(build: ParsedBuild): ParsedBuild {
 /**
  * Tool handler - implements build analysis
  */
-export async function handler(args: { build: ParsedBuild }) {
-  const { build } = args;
+export async function handler(args: {
+  build: ParsedBuild;
+  itemSet?: string;
+  treeSpec?: string;
+  skillSet?: string;
+}) {
+  const { itemSet, treeSpec, skillSet } = args;
+
+  // Switch to the requested loadouts before analysis
+  let build: ParsedBuild;
+  try {
+    build = selectActiveWeaponSet(
+      selectSkillSet(selectTreeSpec(selectItemSet(args.build, itemSet), treeSpec), skillSet)
+    );
+  } catch (error) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(wrapError(error, "analyze_build")),
+        },
+      ],
+    };
+  }
 
   // Estimate missing stats from gear
   const buildWithEstimatedStats = estimateMissingStats(build);
@@ -95,6 +124,8 @@ export async function handler(args: { build: ParsedBuild }) {
   const playstyleDetection = detectPlaystyle(buildWithEstimatedStats);
   const strengthDetection = detectStrengths(buildWithEstimatedStats);
   const weaknessDetection = detectWeaknesses(buildWithEstimatedStats);
+  const authorGoals = analyzeAuthorGoals(buildWithEstimatedStats, defensiveAnalysis, offensiveAnalysis);
+  const linkAnalysis = analyzeSocketLinks(buildWithEstimatedStats);
 
   // Combine strengths with keystone-specific highlights
   const strengths = [
@@ -107,7 +138,9 @@ export async function handler(args: { build: ParsedBuild }) {
   // Combine all weaknesses
   const weaknesses = [
     ...weaknessDetection.categories.defenses,
+    ...(defensiveAnalysis.pantheon?.gaps || []),
     ...weaknessDetection.categories.offenses,
+    ...linkAnalysis.issues,
     ...weaknessDetection.categories.utilities,
   ];
 
@@ -118,6 +151,9 @@ export async function handler(args: { build: ParsedBuild }) {
     playstyleType: playstyleDetection.type,
     defensiveRating: defensiveAnalysis.rating,
     offensiveRating: offensiveAnalysis.rating,
+    dpsAssumptions: offensiveAnalysis.dpsAssumptions,
+    authorGoals,
+    socketLinks: linkAnalysis.groups,
     analyzedAt: new Date().toISOString(),
   };
 
@@ -0,0 +1,63 @@
+/**
+ * MCP Tool: encode_build
+ *
+ * Encodes a (possibly modified) parsed build back into a PoB build code
+ */
+
+import type { ParsedBuild } from "../models/build.js";
+import { encodeBuildCode } from "../serializers/pob-xml-serializer.js";
+import { wrapError } from "../utils/error-handler.js";
+
+/**
+ * Tool input schema
+ */
+export const inputSchema = {
+  type: "object",
+  properties: {
+    build: {
+      type: "object",
+      description: "Parsed build data from parse_pob_code tool (may be modified)",
+    },
+  },
+  required: ["build"],
+};
+
+/**
+ * Tool handler
+ */
+export async function handler(args: { build: ParsedBuild }) {
+  try {
+    const buildCode = encodeBuildCode(args.build);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({
+            success: true,
+            buildCode,
+          }),
+        },
+      ],
+    };
+  } catch (error) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(wrapError(error, "encode_build")),
+        },
+      ],
+    };
+  }
+}
+
+/**
+ * Tool export for server registration
+ */
+export const encodeBuildTool = {
+  name: "encode_build",
+  description: "Encode a parsed build back into a Path of Building build code",
+  inputSchema,
+  handler,
+};
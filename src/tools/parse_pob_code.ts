@@ -1,20 +1,39 @@
 /**
  * MCP Tool: parse_pob_code
  *
- * Parses a Path of Building build code and returns structured build data
+ * Parses a Path of Building build code (or raw XML / build file) and returns structured build data
  */
 
-import type { ParsedBuild } from "../models/build.js";
-import type { PassiveTree } from "../models/passive-tree.js";
-import type { GearSlot } from "../models/gear.js";
-import { parsePoBXML, validatePoBVersion } from "../parsers/pob-xml-parser.js";
+import type { ParsedBuild, SkillSet } from "../models/build.js";
+import type { PassiveTree, PassiveSpec } from "../models/passive-tree.js";
+import type { GearSlot, ItemSet } from "../models/gear.js";
+import type { Jewel } from "../models/jewel.js";
+import type { Diagnostic } from "../models/diagnostic.js";
+import {
+  isPoBXMLText,
+  parsePoBXML,
+  parsePoBXMLString,
+} from "../parsers/pob-xml-parser.js";
+import { validatePoBVersion } from "../parsers/version-parser.js";
+import { diagnoseBuild, diagnoseVersion } from "../parsers/build-diagnostics.js";
 import { parseCharacter } from "../parsers/character-parser.js";
-import { parseSkills } from "../parsers/skill-parser.js";
-import { parsePassives } from "../parsers/passive-parser.js";
-import { parseGear } from "../parsers/gear-parser.js";
-import { parseStats } from "../parsers/stats-parser.js";
+import { parseSkillSets } from "../parsers/skill-parser.js";
+import {
+  attachAnoints,
+  parsePassives,
+  parsePassiveSpecs,
+} from "../parsers/passive-parser.js";
+import { parseGear, parseItemSets } from "../parsers/gear-parser.js";
+import { attachSocketLinks } from "../parsers/socket-parser.js";
+import { parseMinionStats, parseRawStats, parseStats } from "../parsers/stats-parser.js";
+import { parseConfig } from "../parsers/config-parser.js";
+import { parseNotes } from "../parsers/notes-parser.js";
 import { getCachedBuild, setCachedBuild } from "../cache/build-cache.js";
-import { wrapError } from "../utils/error-handler.js";
+import { ErrorCode, PoBParsingError, wrapError } from "../utils/error-handler.js";
+import { readBuildFile } from "../utils/build-file-reader.js";
+import { parseSection } from "../utils/diagnostics.js";
+import { getBuildLinkResolver } from "../api/build-link-fetcher.js";
+import { selectItemSet, selectSkillSet, selectTreeSpec } from "../utils/build-selection.js";
 
 /**
  * Tool input schema (matches contracts/parse_pob_code.json)
@@ -25,66 +44,233 @@ export const inputSchema = {
     buildCode: {
       type: "string",
       description:
-        "Base64-encoded, zlib-compressed Path of Building XML build code (max 1MB after decompression)",
+        "Base64 or base64url-encoded, zlib-compressed Path of Building XML build code (line breaks allowed, max 1MB after decompression), or a pobb.in, pastebin or poe.ninja share link",
+    },
+    buildXml: {
+      type: "string",
+      description: "Decompressed Path of Building XML (alternative to buildCode)",
+    },
+    filePath: {
+      type: "string",
+      description:
+        "Path to a PoB XML file (e.g. from \"Save As\") or a text file holding a build code, inside the directory set by POB_FILE_DIR (alternative to buildCode)",
+    },
+    itemSet: {
+      type: "string",
+      description:
+        "Item set id or title to use for gear (defaults to the build's active item set)",
+    },
+    treeSpec: {
+      type: "string",
+      description:
+        "Passive tree spec number (1-based) or title to use for passives (defaults to the build's active spec)",
+    },
+    skillSet: {
+      type: "string",
+      description:
+        "Skill set id or title to use for skills (defaults to the build's active skill set)",
     },
   },
-  required: ["buildCode"],
+  required: [],
 };
 
+/**
+ * Build input after resolving links and files
+ */
+interface BuildSource {
+  format: "code" | "xml";
+  text: string; // Build code or XML text (also the cache key)
+}
+
+/**
+ * Resolves the tool input (build code, share link, raw XML or file) to a build code or XML text
+ */
+async function resolveBuildSource(args: {
+  buildCode?: string;
+  buildXml?: string;
+  filePath?: string;
+}): Promise<BuildSource> {
+  const provided = (["buildCode", "buildXml", "filePath"] as const).filter(
+    (key) => typeof args[key] === "string" && args[key]!.trim().length > 0
+  );
+  if (provided.length !== 1) {
+    throw new PoBParsingError(
+      ErrorCode.MISSING_REQUIRED_FIELD,
+      provided.length === 0
+        ? "One of buildCode, buildXml or filePath is required"
+        : `Provide only one of buildCode, buildXml or filePath (got ${provided.join(", ")})`
+    );
+  }
+
+  if (args.buildXml) {
+    return { format: "xml", text: args.buildXml };
+  }
+
+  // Files may hold either PoB XML or a build code
+  const input = args.filePath ? (await readBuildFile(args.filePath)).trim() : args.buildCode!;
+  if (isPoBXMLText(input)) {
+    return { format: "xml", text: input };
+  }
+
+  // Share links (pobb.in, pastebin, poe.ninja) are resolved to the raw code first
+  const linkResolver = getBuildLinkResolver();
+  const code = linkResolver.isShareLink(input) ? await linkResolver.resolve(input) : input;
+  return { format: "code", text: code };
+}
+
 /**
  * Tool handler
  */
-export async function handler(args: { buildCode: string }) {
-  const { buildCode } = args;
+export async function handler(args: {
+  buildCode?: string;
+  buildXml?: string;
+  filePath?: string;
+  itemSet?: string;
+  treeSpec?: string;
+  skillSet?: string;
+}) {
+  const { itemSet, treeSpec, skillSet } = args;
 
   try {
+    const source = await resolveBuildSource(args);
+
     // Check cache first
-    const cached = getCachedBuild(buildCode);
-    if (cached) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: JSON.stringify({
-              success: true,
-              build: cached,
-            }),
-          },
-        ],
+    let build = getCachedBuild(source.text);
+
+    if (!build) {
+      // Parse PoB XML
+      const pobXML =
+        source.format === "xml" ? parsePoBXMLString(source.text) : parsePoBXML(source.text);
+
+      // Detect and validate PoB / game versions (newer versions only warn)
+      const versionInfo = validatePoBVersion(pobXML);
+
+      // Parse all sections; a section that fails degrades to its empty value
+      // and is reported in diagnostics instead of failing the whole build
+      const diagnostics: Diagnostic[] = diagnoseVersion(versionInfo);
+      const itemsSection = pobXML.Items || pobXML.Gear;
+      const itemsPath = pobXML.Items ? "/PathOfBuilding/Items" : "/PathOfBuilding/Gear";
+      const character = parseSection(
+        diagnostics,
+        "character",
+        "/PathOfBuilding/Build",
+        () =>
+          parseCharacter(pobXML.Build, pobXML.Tree, itemsSection, versionInfo.game, diagnostics),
+        () => parseCharacter(undefined)
+      );
+      const skillSets: SkillSet[] = parseSection(
+        diagnostics,
+        "skills",
+        "/PathOfBuilding/Skills",
+        () => parseSkillSets(pobXML.Skills, pobXML.Build?.mainSocketGroup),
+        () => []
+      );
+      // The current view is the active skill set, so <Skills> is parsed once
+      const skills = (skillSets.find((set) => set.active) || skillSets[0])?.skills || [];
+      const itemSets: ItemSet[] = parseSection(
+        diagnostics,
+        "items",
+        itemsPath,
+        () => parseItemSets(itemsSection),
+        () => []
+      );
+      const gear: GearSlot[] = parseSection(
+        diagnostics,
+        "items",
+        itemsPath,
+        () => parseGear(itemsSection),
+        () => parseGear(undefined)
+      );
+      const passiveSpecs: PassiveSpec[] = parseSection(
+        diagnostics,
+        "tree",
+        "/PathOfBuilding/Tree",
+        () => parsePassiveSpecs(pobXML.Tree, itemsSection),
+        () => []
+      );
+      const activeSpec = passiveSpecs.find((spec) => spec.active) || passiveSpecs[0];
+      // The current view is the active spec (with its jewels), so the tree is parsed once
+      const passives: PassiveTree = attachAnoints(activeSpec || parsePassives(undefined), gear);
+      const jewels: Jewel[] = activeSpec?.jewels || [];
+      const stats = parseSection(
+        diagnostics,
+        "stats",
+        "/PathOfBuilding/Build/PlayerStat",
+        () => parseStats(pobXML.Build, pobXML.Stats),
+        () => parseStats(undefined)
+      );
+      const minionStats = parseSection(
+        diagnostics,
+        "stats",
+        "/PathOfBuilding/Build/MinionStat",
+        () => parseMinionStats(pobXML.Build),
+        () => []
+      );
+      const rawStats = parseSection(
+        diagnostics,
+        "stats",
+        "/PathOfBuilding/Build/PlayerStat",
+        () => parseRawStats(pobXML.Build?.PlayerStat),
+        () => []
+      );
+      const rawMinionStats = parseSection(
+        diagnostics,
+        "stats",
+        "/PathOfBuilding/Build/MinionStat",
+        () => parseRawStats(pobXML.Build?.MinionStat),
+        () => []
+      );
+      const config = parseSection(
+        diagnostics,
+        "config",
+        "/PathOfBuilding/Config",
+        () => parseConfig(pobXML.Config),
+        () => parseConfig(undefined)
+      );
+      const notes = parseSection(
+        diagnostics,
+        "notes",
+        "/PathOfBuilding/Notes",
+        () => parseNotes(pobXML.Notes),
+        () => null
+      );
+
+      // Build ParsedBuild object
+      const parsed = {
+        buildId: "", // Will be set by cache
+        version: versionInfo.pobVersion ?? "unknown",
+        gameVersion: versionInfo.gameVersion ?? "unknown",
+        versionInfo,
+        character,
+        skills: attachSocketLinks(skills, gear),
+        skillSets,
+        passives,
+        passiveSpecs,
+        jewels,
+        gear,
+        itemSets,
+        stats,
+        minionStats,
+        rawStats,
+        rawMinionStats,
+        config,
+        notes,
+        parsedAt: new Date().toISOString(),
       };
-    }
 
-    // Parse PoB XML
-    const pobXML = parsePoBXML(buildCode);
-
-    // Validate version
-    validatePoBVersion(pobXML);
-
-    // Extract game version
-    const gameVersion = pobXML.gameVersion || "3.25.0";
-
-    // Parse all sections
-    const character = parseCharacter(pobXML.Build);
-    const skills = parseSkills(pobXML.Skills);
-    const passives: PassiveTree = parsePassives(pobXML.Tree);
-    const gear: GearSlot[] = parseGear(pobXML.Gear);
-    const stats = parseStats(pobXML.Stats);
-
-    // Build ParsedBuild object
-    const build: ParsedBuild = {
-      buildId: "", // Will be set by cache
-      version: pobXML.version,
-      gameVersion,
-      character,
-      skills,
-      passives,
-      gear,
-      stats,
-      parsedAt: new Date().toISOString(),
-    };
+      // Report missing sections and silent defaults
+      diagnostics.push(...diagnoseBuild(pobXML, parsed, diagnostics));
+      build = { ...parsed, diagnostics };
+
+      // Cache the result
+      setCachedBuild(source.text, build);
+    }
 
-    // Cache the result
-    setCachedBuild(buildCode, build);
+    // Apply the requested loadouts (cached builds keep the active ones)
+    const selectedBuild: ParsedBuild = selectSkillSet(
+      selectTreeSpec(selectItemSet(build, itemSet), treeSpec),
+      skillSet
+    );
 
     return {
       content: [
@@ -92,7 +278,7 @@ export async function handler(args: { buildCode: string }) {
           type: "text",
           text: JSON.stringify({
             success: true,
-            build,
+            build: selectedBuild,
           }),
         },
       ],
@@ -115,7 +301,7 @@ export async function handler(args: { buildCode: string }) {
 export const parsePobCodeTool = {
   name: "parse_pob_code",
   description:
-    "Parse a Path of Building build code and return structured build data",
+    "Parse a Path of Building build code, share link, raw XML or build file and return structured build data",
   inputSchema,
   handler,
 };
@@ -11,6 +11,7 @@ import { suggestGemImprovements } from "../suggesters/gem-suggester.js";
 import { suggestPassiveImprovements } from "../suggesters/passive-suggester.js";
 import { suggestGearImprovements } from "../suggesters/gear-suggester.js";
 import { suggestUtilityImprovements } from "../suggesters/utility-suggester.js";
+import { selectActiveWeaponSet } from "../utils/build-selection.js";
 
 /**
  * Tool input schema (matches contracts/suggest_improvements.json)
@@ -149,7 +150,9 @@ export async function handler(args: {
   build: ParsedBuild;
   analysis: BuildAnalysis;
 }) {
-  const { build, analysis } = args;
+  const { analysis } = args;
+  // Suggestions are about the weapons in use, not the swap set
+  const build = selectActiveWeaponSet(args.build);
 
   // Generate suggestions from all suggesters
   const gemSuggestions = suggestGemImprovements(build, analysis);
@@ -0,0 +1,39 @@
+/**
+ * Affix Stat Helpers
+ *
+ * Reads canonical affix stats (see mod-translator) from equipped items
+ */
+
+import type { AffixStat, GearSlot } from "../models/gear.js";
+
+/**
+ * Lists the stats of every affix on the given items
+ */
+export function getAffixStats(items: GearSlot[]): AffixStat[] {
+  return items.flatMap((item) => (item.affixes || []).flatMap((affix) => affix.stats || []));
+}
+
+/**
+ * Sums a stat over the given items (e.g., total flat life from gear)
+ */
+export function sumAffixStat(items: GearSlot[], statId: string): number {
+  return getAffixStats(items)
+    .filter((stat) => stat.id === statId)
+    .reduce((sum, stat) => sum + stat.value, 0);
+}
+
+/**
+ * Highest single roll of a stat on the given items (0 when absent)
+ */
+export function maxAffixStat(items: GearSlot[], statId: string): number {
+  return getAffixStats(items)
+    .filter((stat) => stat.id === statId)
+    .reduce((max, stat) => Math.max(max, stat.value), 0);
+}
+
+/**
+ * Checks whether an item has a stat, optionally with at least the given value
+ */
+export function hasAffixStat(item: GearSlot, statId: string, minValue: number = -Infinity): boolean {
+  return getAffixStats([item]).some((stat) => stat.id === statId && stat.value >= minValue);
+}
@@ -1,8 +1,69 @@
 import { ErrorCode, PoBParsingError } from "./error-handler.js";
 
+/**
+ * Characters allowed in a build code (standard and URL-safe alphabets, padding)
+ */
+const BASE64_CHAR = /[A-Za-z0-9+/\-_=]/;
+
+/**
+ * Normalizes a build code to standard, padded base64
+ * Strips whitespace (pasted codes are often wrapped), maps the URL-safe
+ * alphabet ("-", "_") to "+" and "/", and restores missing "=" padding
+ * @param input - Build code as pasted by the user
+ * @returns Standard base64 string
+ * @throws PoBParsingError with the position (1-based, in the original input) of the first invalid character
+ */
+export function normalizeBase64(input: string): string {
+  let normalized = "";
+  let paddingStart: number | null = null;
+
+  for (let index = 0; index < input.length; index++) {
+    const char = input[index];
+
+    if (/\s/.test(char)) {
+      continue;
+    }
+
+    if (!BASE64_CHAR.test(char)) {
+      throw new PoBParsingError(
+        ErrorCode.INVALID_BASE64,
+        `Input contains an invalid base64 character at position ${index + 1}`,
+        `Character ${JSON.stringify(char)} (code ${char.charCodeAt(0)}) is not part of the base64 or base64url alphabet`
+      );
+    }
+
+    // "=" may only appear at the end; any data after padding is invalid
+    if (paddingStart !== null && char !== "=") {
+      throw new PoBParsingError(
+        ErrorCode.INVALID_BASE64,
+        `Input contains an invalid base64 character at position ${index + 1}`,
+        `Character ${JSON.stringify(char)} follows "=" padding at position ${paddingStart + 1}`
+      );
+    }
+
+    if (char === "=") {
+      paddingStart = paddingStart ?? index;
+      continue;
+    }
+
+    normalized += char === "-" ? "+" : char === "_" ? "/" : char;
+  }
+
+  // A single leftover character cannot encode a byte
+  if (normalized.length % 4 === 1) {
+    throw new PoBParsingError(
+      ErrorCode.INVALID_BASE64,
+      `Input has an invalid length (${normalized.length} base64 characters)`,
+      "The code is probably truncated; copy the full build code again"
+    );
+  }
+
+  return normalized + "=".repeat((4 - (normalized.length % 4)) % 4);
+}
+
 /**
  * Validates and decodes a base64-encoded string
- * @param input - Base64 string to decode
+ * @param input - Base64 or base64url string to decode (whitespace and missing padding are tolerated)
  * @returns Decoded buffer
  * @throws PoBParsingError if input is invalid base64
  */
@@ -15,18 +76,12 @@ export function decodeBase64(input: string): Buffer {
     );
   }
 
-  // Validate base64 format (only valid base64 characters)
-  const base64Regex = /^[A-Za-z0-9+/=]+$/;
-  if (!base64Regex.test(input.trim())) {
-    throw new PoBParsingError(
-      ErrorCode.INVALID_BASE64,
-      "Input contains invalid base64 characters"
-    );
-  }
+  // Validate base64 format and convert to the standard alphabet
+  const normalized = normalizeBase64(input);
 
   try {
     // Decode base64 to buffer
-    const decoded = Buffer.from(input.trim(), "base64");
+    const decoded = Buffer.from(normalized, "base64");
 
     // Validate decoding produced output
     if (decoded.length === 0) {
@@ -58,6 +113,10 @@ export function isValidBase64(input: string): boolean {
     return false;
   }
 
-  const base64Regex = /^[A-Za-z0-9+/=]+$/;
-  return base64Regex.test(input.trim());
+  try {
+    normalizeBase64(input);
+    return true;
+  } catch {
+    return false;
+  }
 }
@@ -0,0 +1,93 @@
+import { readFile, realpath, stat } from "node:fs/promises";
+import path from "node:path";
+import { ErrorCode, PoBParsingError } from "./error-handler.js";
+import { assertPayloadSize } from "./payload-limits.js";
+
+/**
+ * Directory build files may be read from (file input is disabled when unset)
+ */
+export function getAllowedBuildDir(): string | null {
+  const dir = process.env.POB_FILE_DIR;
+  return dir && dir.trim().length > 0 ? path.resolve(dir.trim()) : null;
+}
+
+/**
+ * Reads a build file (PoB XML from "Save As", or a text file holding a build code)
+ * @param filePath - Absolute path, or path relative to the allowed directory
+ * @param allowedDir - Directory the file must be inside (defaults to POB_FILE_DIR)
+ * @returns File contents
+ * @throws PoBParsingError if file input is disabled, the path escapes the allowed directory or the file cannot be read
+ */
+export async function readBuildFile(
+  filePath: string,
+  allowedDir: string | null = getAllowedBuildDir()
+): Promise<string> {
+  if (!allowedDir) {
+    throw new PoBParsingError(
+      ErrorCode.MISSING_REQUIRED_FIELD,
+      "File input is disabled",
+      "Set POB_FILE_DIR to the directory build files may be read from"
+    );
+  }
+
+  if (typeof filePath !== "string" || filePath.trim().length === 0) {
+    throw new PoBParsingError(
+      ErrorCode.MISSING_REQUIRED_FIELD,
+      "File path must be a non-empty string"
+    );
+  }
+
+  // Resolve symlinks on both sides so links cannot point outside the directory
+  let resolvedDir: string;
+  let resolvedPath: string;
+  try {
+    resolvedDir = await realpath(allowedDir);
+    resolvedPath = await realpath(path.resolve(resolvedDir, filePath.trim()));
+  } catch (error) {
+    throw new PoBParsingError(
+      ErrorCode.MISSING_REQUIRED_FIELD,
+      isAccessError(error)
+        ? `Build file cannot be accessed: ${filePath}`
+        : `Build file not found: ${filePath}`,
+      error instanceof Error ? error.message : String(error)
+    );
+  }
+
+  const relative = path.relative(resolvedDir, resolvedPath);
+  if (relative.startsWith("..") || path.isAbsolute(relative)) {
+    throw new PoBParsingError(
+      ErrorCode.MISSING_REQUIRED_FIELD,
+      `Build file is outside the allowed directory: ${filePath}`,
+      `Files must be inside ${resolvedDir}`
+    );
+  }
+
+  try {
+    const info = await stat(resolvedPath);
+    if (!info.isFile()) {
+      throw new PoBParsingError(ErrorCode.MISSING_REQUIRED_FIELD, `Not a file: ${filePath}`);
+    }
+    assertPayloadSize(info.size, "Build file");
+
+    return await readFile(resolvedPath, "utf-8");
+  } catch (error) {
+    if (error instanceof PoBParsingError) {
+      throw error;
+    }
+    throw new PoBParsingError(
+      ErrorCode.MISSING_REQUIRED_FIELD,
+      isAccessError(error)
+        ? `Build file cannot be accessed: ${filePath}`
+        : `Failed to read build file: ${filePath}`,
+      error instanceof Error ? error.message : String(error)
+    );
+  }
+}
+
+/**
+ * Checks whether a file system error is a permission error
+ */
+function isAccessError(error: unknown): boolean {
+  const code = (error as NodeJS.ErrnoException)?.code;
+  return code === "EACCES" || code === "EPERM";
+}
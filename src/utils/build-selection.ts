@@ -0,0 +1,138 @@
+/**
+ * Build Selection Helpers
+ *
+ * Switches a parsed build to one of the alternative loadouts stored in the PoB code
+ */
+
+import type { ParsedBuild } from "../models/build.js";
+import { attachAnoints } from "../parsers/passive-parser.js";
+import { attachSocketLinks } from "../parsers/socket-parser.js";
+import { ErrorCode, PoBParsingError } from "./error-handler.js";
+
+/**
+ * Checks whether a loadout matches a selector (id or case-insensitive title)
+ */
+function matchesSelector(entry: { id: string; title: string }, selector: string): boolean {
+  const normalized = selector.trim().toLowerCase();
+  return entry.id === selector.trim() || entry.title.toLowerCase() === normalized;
+}
+
+/**
+ * Returns a copy of the build whose gear comes from the selected item set
+ * @param build - Parsed build
+ * @param selector - Item set id or title (omit to keep the current gear)
+ * @returns Build with gear replaced by the selected item set
+ * @throws PoBParsingError if no item set matches the selector
+ */
+export function selectItemSet(build: ParsedBuild, selector?: string): ParsedBuild {
+  if (selector === undefined || selector === null || String(selector).trim() === "") {
+    return build;
+  }
+
+  const itemSets = build.itemSets || [];
+  const itemSet = itemSets.find((set) => matchesSelector(set, String(selector)));
+
+  if (!itemSet) {
+    throw new PoBParsingError(
+      ErrorCode.SELECTION_NOT_FOUND,
+      `Item set "${selector}" not found`,
+      `Available item sets: ${itemSets.map((set) => `${set.id} (${set.title})`).join(", ") || "none"}`
+    );
+  }
+
+  // Anoints and socket links depend on the items, so they follow the item set
+  return {
+    ...build,
+    gear: itemSet.gear,
+    passives: attachAnoints(build.passives, itemSet.gear),
+    skills: attachSocketLinks(build.skills, itemSet.gear),
+  };
+}
+
+/**
+ * Returns a copy of the build with only the active weapon set equipped
+ * With the second set active, the swap weapons take the Weapon1/Weapon2 slots so analysis
+ * reads the weapons in use; skill groups socketed in the inactive set are left out
+ * @param build - Parsed build
+ * @returns Build whose gear and skills match character.activeWeaponSet
+ */
+export function selectActiveWeaponSet(build: ParsedBuild): ParsedBuild {
+  const useSwap = build.character?.activeWeaponSet === 2;
+  const isInactive = (slot: string | null) =>
+    slot !== null && (useSwap ? /^Weapon[12](?!Swap)/ : /^Weapon[12]Swap/).test(slot);
+  const toActiveSlot = <T extends string | null>(slot: T): T =>
+    (useSwap && slot ? slot.replace(/^(Weapon[12])Swap/, "$1") : slot) as T;
+
+  const gear = build.gear
+    .filter((item) => !isInactive(item.slot))
+    .map((item) => ({ ...item, slot: toActiveSlot(item.slot) }));
+  const skills = build.skills
+    .filter((skill) => !isInactive(skill.itemSlot))
+    .map((skill) => ({ ...skill, itemSlot: toActiveSlot(skill.itemSlot) }));
+
+  return {
+    ...build,
+    gear,
+    skills: attachSocketLinks(skills, gear),
+  };
+}
+
+/**
+ * Returns a copy of the build whose passives come from the selected tree spec
+ * @param build - Parsed build
+ * @param selector - Spec id (1-based index) or title (omit to keep the current passives)
+ * @returns Build with passives replaced by the selected spec
+ * @throws PoBParsingError if no spec matches the selector
+ */
+export function selectTreeSpec(build: ParsedBuild, selector?: string): ParsedBuild {
+  if (selector === undefined || selector === null || String(selector).trim() === "") {
+    return build;
+  }
+
+  const specs = build.passiveSpecs || [];
+  const spec = specs.find((entry) => matchesSelector(entry, String(selector)));
+
+  if (!spec) {
+    throw new PoBParsingError(
+      ErrorCode.SELECTION_NOT_FOUND,
+      `Passive tree spec "${selector}" not found`,
+      `Available specs: ${specs.map((entry) => `${entry.id} (${entry.title})`).join(", ") || "none"}`
+    );
+  }
+
+  // Jewel sockets belong to the spec
+  return {
+    ...build,
+    passives: attachAnoints(spec, build.gear),
+    jewels: spec.jewels || [],
+  };
+}
+
+/**
+ * Returns a copy of the build whose skills come from the selected skill set
+ * @param build - Parsed build
+ * @param selector - Skill set id or title (omit to keep the current skills)
+ * @returns Build with skills replaced by the selected skill set
+ * @throws PoBParsingError if no skill set matches the selector
+ */
+export function selectSkillSet(build: ParsedBuild, selector?: string): ParsedBuild {
+  if (selector === undefined || selector === null || String(selector).trim() === "") {
+    return build;
+  }
+
+  const skillSets = build.skillSets || [];
+  const skillSet = skillSets.find((set) => matchesSelector(set, String(selector)));
+
+  if (!skillSet) {
+    throw new PoBParsingError(
+      ErrorCode.SELECTION_NOT_FOUND,
+      `Skill set "${selector}" not found`,
+      `Available skill sets: ${skillSets.map((set) => `${set.id} (${set.title})`).join(", ") || "none"}`
+    );
+  }
+
+  return {
+    ...build,
+    skills: attachSocketLinks(skillSet.skills, build.gear),
+  };
+}
@@ -1,13 +1,32 @@
 import { PoBParsingError, ErrorCode } from "./error-handler.js";
 import { inflateSync, inflateRawSync } from "zlib";
+import { getPayloadLimits } from "./payload-limits.js";
+
+/**
+ * Converts zlib's output size error into PAYLOAD_TOO_LARGE
+ */
+function toPayloadError(error: unknown, maxOutputLength: number): PoBParsingError | null {
+  if ((error as NodeJS.ErrnoException)?.code !== "ERR_BUFFER_TOO_LARGE") {
+    return null;
+  }
+  return new PoBParsingError(
+    ErrorCode.PAYLOAD_TOO_LARGE,
+    `Decompressed build exceeds ${maxOutputLength} bytes`,
+    "Raise POB_MAX_DECOMPRESSED_SIZE to allow larger builds"
+  );
+}
 
 /**
  * Decompresses zlib-compressed data
  * @param compressed - Buffer containing zlib-compressed data
+ * @param maxOutputLength - Maximum decompressed size in bytes (defaults to POB_MAX_DECOMPRESSED_SIZE)
  * @returns Decompressed string
- * @throws PoBParsingError if decompression fails
+ * @throws PoBParsingError if decompression fails or the output exceeds the limit
  */
-export function decompressZlib(compressed: Buffer): string {
+export function decompressZlib(
+  compressed: Buffer,
+  maxOutputLength: number = getPayloadLimits().maxDecompressedSize
+): string {
   // Validate input is a buffer
   if (!Buffer.isBuffer(compressed)) {
     throw new PoBParsingError(
@@ -25,8 +44,8 @@ export function decompressZlib(compressed: Buffer): string {
   }
 
   try {
-    // Decompress using Node.js built-in zlib
-    const decompressed = inflateSync(compressed);
+    // Decompress using Node.js built-in zlib (capped so a small code cannot exhaust memory)
+    const decompressed = inflateSync(compressed, { maxOutputLength });
 
     // Validate decompression produced output
     if (decompressed.length === 0) {
@@ -42,7 +61,7 @@ export function decompressZlib(compressed: Buffer): string {
     if (error instanceof PoBParsingError) {
       throw error;
     }
-    throw new PoBParsingError(
+    throw toPayloadError(error, maxOutputLength) ?? new PoBParsingError(
       ErrorCode.DECOMPRESSION_ERROR,
       "Failed to decompress zlib data",
       error instanceof Error ? error.message : String(error)
@@ -55,18 +74,29 @@ export function decompressZlib(compressed: Buffer): string {
  * Tries zlib inflate first, then falls back to raw deflate
  */
 export function decompressWithFallback(compressed: Buffer): string {
+  const maxOutputLength = getPayloadLimits().maxDecompressedSize;
+
   try {
     // Try standard zlib inflation first
-    return decompressZlib(compressed);
+    return decompressZlib(compressed, maxOutputLength);
   } catch (zlibError) {
+    // Oversized payloads are not retried
+    if (zlibError instanceof PoBParsingError && zlibError.code === ErrorCode.PAYLOAD_TOO_LARGE) {
+      throw zlibError;
+    }
+
     try {
       // Try raw deflate (some PoB versions use this)
-      const decompressed = inflateRawSync(compressed);
+      const decompressed = inflateRawSync(compressed, { maxOutputLength });
       if (decompressed.length === 0) {
         throw zlibError;
       }
       return decompressed.toString("utf-8");
     } catch (rawError) {
+      const payloadError = toPayloadError(rawError, maxOutputLength);
+      if (payloadError) {
+        throw payloadError;
+      }
       throw new PoBParsingError(
         ErrorCode.DECOMPRESSION_ERROR,
         "Failed to decompress with both zlib and raw deflate",
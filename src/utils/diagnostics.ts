@@ -0,0 +1,57 @@
+import type {
+  BuildSection,
+  Diagnostic,
+  DiagnosticCode,
+  DiagnosticSeverity,
+} from "../models/diagnostic.js";
+
+/**
+ * Creates a diagnostic
+ */
+export function createDiagnostic(
+  section: BuildSection,
+  severity: DiagnosticSeverity,
+  code: DiagnosticCode,
+  message: string,
+  path: string
+): Diagnostic {
+  return { section, severity, code, message, path };
+}
+
+/**
+ * Runs a section parser; if it throws, records an error diagnostic and
+ * returns the fallback so the rest of the build can still be parsed
+ * @param diagnostics - Diagnostics of the build (appended to)
+ * @param section - Section being parsed
+ * @param path - XML path of the section
+ * @param parse - Section parser
+ * @param fallback - Value used when the parser fails (usually the parser's result for a missing section)
+ */
+export function parseSection<T>(
+  diagnostics: Diagnostic[],
+  section: BuildSection,
+  path: string,
+  parse: () => T,
+  fallback: () => T
+): T {
+  try {
+    return parse();
+  } catch (error) {
+    const message = `${path} could not be read: ${error instanceof Error ? error.message : String(error)}`;
+
+    // Parsers sharing a section (e.g. gear and item sets) report the same failure once
+    if (!diagnostics.some((diagnostic) => diagnostic.path === path && diagnostic.message === message)) {
+      diagnostics.push(createDiagnostic(section, "error", "SECTION_PARSE_FAILED", message, path));
+    }
+    return fallback();
+  }
+}
+
+/**
+ * Checks whether a section already has an error diagnostic
+ */
+export function hasSectionError(diagnostics: Diagnostic[], section: BuildSection): boolean {
+  return diagnostics.some(
+    (diagnostic) => diagnostic.section === section && diagnostic.severity === "error"
+  );
+}
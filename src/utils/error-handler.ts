@@ -9,6 +9,9 @@ export enum ErrorCode {
   UNSUPPORTED_VERSION = "UNSUPPORTED_VERSION",
   MISSING_REQUIRED_FIELD = "MISSING_REQUIRED_FIELD",
   PASSIVE_TREE_ERROR = "PASSIVE_TREE_ERROR",
+  SELECTION_NOT_FOUND = "SELECTION_NOT_FOUND",
+  LINK_RESOLUTION_ERROR = "LINK_RESOLUTION_ERROR",
+  PAYLOAD_TOO_LARGE = "PAYLOAD_TOO_LARGE",
 }
 
 export interface McpError {
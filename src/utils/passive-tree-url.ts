@@ -0,0 +1,208 @@
+/**
+ * Passive Tree URL Codec
+ *
+ * Decodes and encodes the official passive tree link format
+ * (https://www.pathofexile.com/passive-skill-tree/<base64url payload>)
+ *
+ * Payload layout (big-endian):
+ * - 4 bytes: format version (1-6)
+ * - 1 byte: class ID
+ * - 1 byte: ascendancy ID (bits 0-1) and secondary ascendancy ID (bits 2-3), version 4+
+ * - version 5+: node count, then 16-bit node IDs
+ * - version 5+: cluster node count, then 16-bit cluster node IDs (offset by 65536)
+ * - version 6+: mastery count, then 16-bit effect ID / 16-bit node ID pairs
+ */
+
+import type { MasterySelection } from "../models/passive-tree.js";
+import { ErrorCode, PoBParsingError } from "./error-handler.js";
+
+/**
+ * Default prefix for encoded tree links
+ */
+export const PASSIVE_TREE_URL_PREFIX = "https://www.pathofexile.com/passive-skill-tree/";
+
+/**
+ * Highest payload version understood by the codec
+ */
+const MAX_URL_VERSION = 6;
+
+/**
+ * Cluster jewel node IDs are stored offset by this value
+ */
+const CLUSTER_NODE_OFFSET = 65536;
+
+/**
+ * Data carried by a passive tree link
+ */
+export interface PassiveTreeUrlData {
+  version: number; // Payload format version
+  classId: number;
+  ascendClassId: number;
+  secondaryAscendClassId: number;
+  nodes: string[]; // Allocated regular node IDs
+  clusterNodes: string[]; // Allocated cluster jewel node IDs (65536+)
+  masteryEffects: MasterySelection[];
+}
+
+/**
+ * Decodes a passive tree link or bare payload
+ * @param url - Tree URL (query string and fragment are ignored) or base64url payload
+ * @returns Decoded class, ascendancy, nodes and mastery selections
+ * @throws PoBParsingError if the link is malformed or uses an unknown version
+ */
+export function decodePassiveTreeUrl(url: string): PassiveTreeUrlData {
+  if (typeof url !== "string" || url.trim().length === 0) {
+    throw new PoBParsingError(ErrorCode.PASSIVE_TREE_ERROR, "Tree link is empty");
+  }
+
+  // Payload is the last path segment
+  const payload = url.trim().split(/[?#]/)[0].replace(/\/+$/, "").split("/").pop() || "";
+  const bytes = Buffer.from(payload.replace(/-/g, "+").replace(/_/g, "/"), "base64");
+
+  if (bytes.length < 6) {
+    throw new PoBParsingError(
+      ErrorCode.PASSIVE_TREE_ERROR,
+      "Invalid tree link (unrecognised format)",
+      `Decoded payload is ${bytes.length} bytes`
+    );
+  }
+
+  const version = bytes.readUInt32BE(0);
+  if (version < 1 || version > MAX_URL_VERSION) {
+    throw new PoBParsingError(
+      ErrorCode.PASSIVE_TREE_ERROR,
+      `Invalid tree link (unknown version number '${version}')`
+    );
+  }
+
+  const classId = bytes[4];
+  const ascendancyIds = version >= 4 ? bytes[5] : 0;
+
+  const result: PassiveTreeUrlData = {
+    version,
+    classId,
+    ascendClassId: ascendancyIds & 3,
+    secondaryAscendClassId: (ascendancyIds & 12) >> 2,
+    nodes: [],
+    clusterNodes: [],
+    masteryEffects: [],
+  };
+
+  // Before version 5 the node list runs to the end of the payload
+  let offset = version >= 4 ? 7 : 6;
+  const nodesEnd = version >= 5 ? 7 + bytes[6] * 2 : bytes.length;
+  assertLength(bytes, nodesEnd);
+
+  for (; offset + 1 < nodesEnd; offset += 2) {
+    result.nodes.push(String(bytes.readUInt16BE(offset)));
+  }
+
+  if (version < 5) {
+    return result;
+  }
+
+  // Cluster jewel nodes
+  offset = nodesEnd;
+  assertLength(bytes, offset + 1);
+  const clusterEnd = offset + 1 + bytes[offset] * 2;
+  assertLength(bytes, clusterEnd);
+
+  for (offset += 1; offset + 1 < clusterEnd; offset += 2) {
+    result.clusterNodes.push(String(bytes.readUInt16BE(offset) + CLUSTER_NODE_OFFSET));
+  }
+
+  if (version < 6) {
+    return result;
+  }
+
+  // Mastery effect selections
+  offset = clusterEnd;
+  assertLength(bytes, offset + 1);
+  const masteryEnd = offset + 1 + bytes[offset] * 4;
+  assertLength(bytes, masteryEnd);
+
+  for (offset += 1; offset + 3 < masteryEnd; offset += 4) {
+    result.masteryEffects.push({
+      effectId: String(bytes.readUInt16BE(offset)),
+      nodeId: String(bytes.readUInt16BE(offset + 2)),
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Encodes tree data as a version 6 passive tree link
+ * @param data - Class, ascendancy, nodes and mastery selections
+ * @param prefix - URL prefix (defaults to the official tree page)
+ * @returns Tree link
+ * @throws PoBParsingError if a list exceeds the format limits
+ */
+export function encodePassiveTreeUrl(
+  data: Omit<PassiveTreeUrlData, "version">,
+  prefix: string = PASSIVE_TREE_URL_PREFIX
+): string {
+  // Cluster nodes may be passed in either list; split them by ID range
+  const allNodes = [...data.nodes, ...data.clusterNodes].map((id) => parseInt(id, 10));
+  const nodes = allNodes.filter((id) => id >= 0 && id < CLUSTER_NODE_OFFSET);
+  const clusterNodes = allNodes
+    .filter((id) => id >= CLUSTER_NODE_OFFSET && id < CLUSTER_NODE_OFFSET * 2)
+    .map((id) => id - CLUSTER_NODE_OFFSET);
+  const masteries = data.masteryEffects.map((mastery) => [
+    parseInt(mastery.effectId, 10),
+    parseInt(mastery.nodeId, 10),
+  ]);
+
+  if (nodes.length > 255 || clusterNodes.length > 255 || masteries.length > 255) {
+    throw new PoBParsingError(
+      ErrorCode.PASSIVE_TREE_ERROR,
+      "Too many nodes to encode in a tree link",
+      `nodes: ${nodes.length}, cluster nodes: ${clusterNodes.length}, masteries: ${masteries.length}`
+    );
+  }
+
+  const bytes = Buffer.alloc(
+    6 + 1 + nodes.length * 2 + 1 + clusterNodes.length * 2 + 1 + masteries.length * 4
+  );
+
+  bytes.writeUInt32BE(MAX_URL_VERSION, 0);
+  bytes[4] = data.classId & 0xff;
+  bytes[5] = (data.ascendClassId & 3) | ((data.secondaryAscendClassId & 3) << 2);
+
+  let offset = 6;
+  bytes[offset++] = nodes.length;
+  for (const id of nodes) {
+    bytes.writeUInt16BE(id, offset);
+    offset += 2;
+  }
+
+  bytes[offset++] = clusterNodes.length;
+  for (const id of clusterNodes) {
+    bytes.writeUInt16BE(id, offset);
+    offset += 2;
+  }
+
+  bytes[offset++] = masteries.length;
+  for (const [effectId, nodeId] of masteries) {
+    bytes.writeUInt16BE(effectId & 0xffff, offset);
+    bytes.writeUInt16BE(nodeId & 0xffff, offset + 2);
+    offset += 4;
+  }
+
+  // Same alphabet as the official site (URL-safe, padded)
+  const payload = bytes.toString("base64").replace(/\+/g, "-").replace(/\//g, "_");
+  return `${prefix}${payload}`;
+}
+
+/**
+ * Ensures the payload is long enough for the next section
+ */
+function assertLength(bytes: Buffer, required: number): void {
+  if (bytes.length < required) {
+    throw new PoBParsingError(
+      ErrorCode.PASSIVE_TREE_ERROR,
+      "Invalid tree link (payload is truncated)",
+      `Expected at least ${required} bytes, got ${bytes.length}`
+    );
+  }
+}
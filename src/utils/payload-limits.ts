@@ -0,0 +1,183 @@
+import { ErrorCode, PoBParsingError } from "./error-handler.js";
+
+/**
+ * Limits applied to build payloads before they are parsed
+ */
+export interface PayloadLimits {
+  maxDecompressedSize: number; // Bytes of XML after decompression
+  maxXmlDepth: number; // Deepest element nesting
+  maxXmlElements: number; // Total number of elements
+}
+
+/**
+ * Default limits (real builds use ~100KB, depth 5 and a few thousand elements)
+ */
+const DEFAULT_LIMITS: PayloadLimits = {
+  maxDecompressedSize: 1024 * 1024, // 1MB
+  maxXmlDepth: 32,
+  maxXmlElements: 50000,
+};
+
+/**
+ * Markup whose content is skipped when counting elements (opening and closing delimiters)
+ */
+const SKIPPED_MARKUP: Array<[string, string]> = [
+  ["<!--", "-->"],
+  ["<![CDATA[", "]]>"],
+  ["<?", "?>"],
+];
+
+/**
+ * Characters that can start an element name
+ */
+const NAME_START = /[A-Za-z_]/;
+
+/**
+ * Reads a positive integer from the environment
+ */
+function readLimit(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || "", 10);
+  return isNaN(value) || value <= 0 ? fallback : value;
+}
+
+/**
+ * Current limits (configurable via POB_MAX_DECOMPRESSED_SIZE, POB_MAX_XML_DEPTH
+ * and POB_MAX_XML_ELEMENTS)
+ */
+export function getPayloadLimits(): PayloadLimits {
+  return {
+    maxDecompressedSize: readLimit("POB_MAX_DECOMPRESSED_SIZE", DEFAULT_LIMITS.maxDecompressedSize),
+    maxXmlDepth: readLimit("POB_MAX_XML_DEPTH", DEFAULT_LIMITS.maxXmlDepth),
+    maxXmlElements: readLimit("POB_MAX_XML_ELEMENTS", DEFAULT_LIMITS.maxXmlElements),
+  };
+}
+
+/**
+ * Checks the size of a payload
+ * @param size - Payload size in bytes
+ * @param what - Payload description for the error message
+ * @throws PoBParsingError (PAYLOAD_TOO_LARGE) if the payload exceeds the limit
+ */
+export function assertPayloadSize(
+  size: number,
+  what: string,
+  limits: PayloadLimits = getPayloadLimits()
+): void {
+  if (size > limits.maxDecompressedSize) {
+    throw new PoBParsingError(
+      ErrorCode.PAYLOAD_TOO_LARGE,
+      `${what} is too large (${size} bytes)`,
+      `Maximum size: ${limits.maxDecompressedSize} bytes (POB_MAX_DECOMPRESSED_SIZE)`
+    );
+  }
+}
+
+/**
+ * Checks XML text against the size, depth and element limits before it is parsed,
+ * and rejects DOCTYPE declarations so entities cannot be defined or expanded
+ * @throws PoBParsingError (PAYLOAD_TOO_LARGE or INVALID_XML)
+ */
+export function assertXmlWithinLimits(
+  xmlString: string,
+  limits: PayloadLimits = getPayloadLimits()
+): void {
+  assertPayloadSize(Buffer.byteLength(xmlString, "utf-8"), "XML", limits);
+
+  if (/<!DOCTYPE|<!ENTITY/i.test(xmlString)) {
+    throw new PoBParsingError(
+      ErrorCode.INVALID_XML,
+      "DOCTYPE and ENTITY declarations are not allowed",
+      "PoB XML never declares entities; entity expansion is disabled"
+    );
+  }
+
+  let depth = 0;
+  let elements = 0;
+
+  for (const tag of scanTags(xmlString)) {
+    if (tag === "end") {
+      depth = Math.max(0, depth - 1);
+      continue;
+    }
+
+    elements++;
+    if (elements > limits.maxXmlElements) {
+      throw new PoBParsingError(
+        ErrorCode.PAYLOAD_TOO_LARGE,
+        `XML has too many elements (more than ${limits.maxXmlElements})`,
+        "Raise POB_MAX_XML_ELEMENTS to allow larger builds"
+      );
+    }
+
+    if (tag === "start") {
+      depth++;
+      if (depth > limits.maxXmlDepth) {
+        throw new PoBParsingError(
+          ErrorCode.PAYLOAD_TOO_LARGE,
+          `XML is nested too deeply (more than ${limits.maxXmlDepth} levels)`,
+          "Raise POB_MAX_XML_DEPTH to allow deeper nesting"
+        );
+      }
+    }
+  }
+}
+
+/**
+ * Lists the start, end and self-closing tags of XML text in one pass
+ * Every character is read once, so malformed input (unclosed tags or quotes) cannot make
+ * the scan slow; malformed tags are skipped and left for the parser to reject
+ */
+function* scanTags(xml: string): Generator<"start" | "end" | "selfClosing"> {
+  let pos = xml.indexOf("<");
+
+  while (pos !== -1) {
+    const skipped = SKIPPED_MARKUP.find(([open]) => xml.startsWith(open, pos));
+    if (skipped) {
+      const close = xml.indexOf(skipped[1], pos + skipped[0].length);
+      if (close === -1) {
+        return;
+      }
+      pos = xml.indexOf("<", close + skipped[1].length);
+      continue;
+    }
+
+    const closing = xml[pos + 1] === "/";
+    if (!NAME_START.test(xml[pos + (closing ? 2 : 1)] || "")) {
+      pos = xml.indexOf("<", pos + 1);
+      continue;
+    }
+
+    // Find the end of the tag; quoted attribute values may contain ">"
+    let quote: string | null = null;
+    let end = -1;
+    let next = -1;
+    for (let i = pos + 1; i < xml.length; i++) {
+      const char = xml[i];
+      if (quote) {
+        if (char === quote) {
+          quote = null;
+        }
+      } else if (char === '"' || char === "'") {
+        quote = char;
+      } else if (char === ">") {
+        end = i;
+        break;
+      } else if (char === "<") {
+        next = i;
+        break;
+      }
+    }
+
+    if (end === -1) {
+      // Unterminated tag: carry on from the next "<" (or stop at the end of the text)
+      if (next === -1) {
+        return;
+      }
+      pos = next;
+      continue;
+    }
+
+    yield closing ? "end" : xml[end - 1] === "/" ? "selfClosing" : "start";
+    pos = xml.indexOf("<", end + 1);
+  }
+}
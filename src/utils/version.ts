@@ -0,0 +1,92 @@
+/**
+ * Version parsing and comparison (semver-style, tolerant of PoB's formats)
+ */
+
+/**
+ * Parsed version number
+ */
+export interface ParsedVersion {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: string | null; // e.g. "beta.1" in "0.1.0-beta.1"
+}
+
+/**
+ * Tree variant suffixes of PoB tree versions ("3_25_ruthless", "3_25_alternate")
+ */
+const TREE_VARIANT_SUFFIX = /(?:_(?:ruthless|alternate))+$/i;
+
+/**
+ * Parses "2.48.2", "v0.1.0", "3_25", "3.25" or "3_25_ruthless" (missing parts are 0)
+ * @returns Parsed version, or null if the input is not a version
+ */
+export function parseVersion(input: string | number | null | undefined): ParsedVersion | null {
+  if (input === null || input === undefined) {
+    return null;
+  }
+
+  const match = String(input)
+    .trim()
+    .replace(TREE_VARIANT_SUFFIX, "")
+    .match(/^v?(\d+)(?:[._](\d+))?(?:[._](\d+))?(?:-([0-9A-Za-z.-]+))?$/);
+  if (!match) {
+    return null;
+  }
+
+  return {
+    major: parseInt(match[1], 10),
+    minor: match[2] ? parseInt(match[2], 10) : 0,
+    patch: match[3] ? parseInt(match[3], 10) : 0,
+    prerelease: match[4] || null,
+  };
+}
+
+/**
+ * Compares two versions numerically ("1.10.0" is newer than "1.4.170")
+ * A prerelease sorts before its release ("0.1.0-beta" < "0.1.0")
+ * @returns Negative if a < b, 0 if equal, positive if a > b
+ * @throws Error if either input is not a version
+ */
+export function compareVersions(a: string | ParsedVersion, b: string | ParsedVersion): number {
+  const left = typeof a === "string" ? parseVersion(a) : a;
+  const right = typeof b === "string" ? parseVersion(b) : b;
+  if (!left || !right) {
+    throw new Error(`Cannot compare versions "${String(a)}" and "${String(b)}"`);
+  }
+
+  const difference =
+    left.major - right.major || left.minor - right.minor || left.patch - right.patch;
+  if (difference !== 0) {
+    return difference;
+  }
+
+  if (left.prerelease === right.prerelease) {
+    return 0;
+  }
+  if (left.prerelease === null) {
+    return 1;
+  }
+  if (right.prerelease === null) {
+    return -1;
+  }
+  return left.prerelease.localeCompare(right.prerelease, undefined, { numeric: true });
+}
+
+/**
+ * Checks whether a version belongs to a newer release line (major.minor) than another
+ * ("2.52.3" is not newer than "2.52", "2.53.0" is)
+ */
+export function isNewerRelease(version: ParsedVersion, latest: ParsedVersion): boolean {
+  return (
+    version.major > latest.major ||
+    (version.major === latest.major && version.minor > latest.minor)
+  );
+}
+
+/**
+ * Formats a version as "major.minor" (game versions, e.g. "3.25")
+ */
+export function formatReleaseVersion(version: ParsedVersion): string {
+  return `${version.major}.${version.minor}`;
+}